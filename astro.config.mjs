@@ -1,28 +1,36 @@
-import fs from 'node:fs';
-import path from 'node:path';
 import react from '@astrojs/react';
-import yaml from '@rollup/plugin-yaml';
 import tailwindcss from '@tailwindcss/vite';
 import umami from '@yeskunall/astro-umami';
 import { defineConfig } from 'astro/config';
 import icon from 'astro-icon';
 import mermaid from 'astro-mermaid';
 import pagefind from 'astro-pagefind';
-import jsYaml from 'js-yaml';
 import rehypeAutolinkHeadings from 'rehype-autolink-headings';
+import rehypeKatex from 'rehype-katex';
 import rehypeSlug from 'rehype-slug';
+import remarkDirective from 'remark-directive';
+import remarkMath from 'remark-math';
 import { visualizer } from 'rollup-plugin-visualizer';
 import svgr from 'vite-plugin-svgr';
+import { getSiteConfigFiles, loadSiteConfig } from './src/lib/config/loader.ts';
+import { assertValidSiteConfig } from './src/lib/config/schema.ts';
+import { rehypeFootnoteTooltips } from './src/lib/markdown/rehype-footnote-tooltips.ts';
 import { rehypeImagePlaceholder } from './src/lib/markdown/rehype-image-placeholder.ts';
+import { remarkAdmonitions } from './src/lib/markdown/remark-admonitions.ts';
+import { remarkCitations } from './src/lib/markdown/remark-citations.ts';
+import { remarkCodeGroup } from './src/lib/markdown/remark-code-group.ts';
+import { remarkGallery } from './src/lib/markdown/remark-gallery.ts';
 import { remarkLinkEmbed } from './src/lib/markdown/remark-link-embed.ts';
+import { codeBlockTransformers } from './src/lib/markdown/shiki-code-meta.ts';
 import { normalizeUrl } from './src/lib/utils.ts';
 
-// Load YAML config directly with Node.js (before Vite plugins are available)
-// This is only used in astro.config.mjs - other files use @rollup/plugin-yaml
+// Load the layered config (site.yaml < site.local.yaml < JEET_* env) before Vite plugins are available
+// Other files read the same merged result through `virtual:site-config`
 function loadConfigForAstro() {
-  const configPath = path.join(process.cwd(), 'config', 'site.yaml');
-  const content = fs.readFileSync(configPath, 'utf8');
-  return jsYaml.load(content);
+  const { config, sources } = loadSiteConfig();
+  // Fail fast with path-qualified errors before any config value is used
+  assertValidSiteConfig(config, sources.join(' + '));
+  return config;
 }
 
 const yamlConfig = loadConfigForAstro();
@@ -63,6 +71,29 @@ function conditionalSnowfall() {
   };
 }
 
+/**
+ * Vite plugin exposing the merged site config as `virtual:site-config`
+ * Config files are watched, so edits to site.yaml / site.local.yaml reload the dev server's modules
+ */
+function siteConfigModule() {
+  const VIRTUAL_ID = 'virtual:site-config';
+  const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+  return {
+    name: 'site-config',
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID;
+    },
+    load(id) {
+      if (id === RESOLVED_ID) {
+        for (const file of getSiteConfigFiles()) this.addWatchFile(file);
+        // Reload on every load so dev edits are picked up; validation already ran at startup
+        return `export default ${JSON.stringify(loadSiteConfig().config)};`;
+      }
+    },
+  };
+}
+
 // https://astro.build/config
 export default defineConfig({
   site: yamlConfig.site.url,
@@ -72,16 +103,32 @@ export default defineConfig({
     gfm: true,
     // Configure remark plugins for link embedding
     remarkPlugins: [
+      // Parse $inline$ and $$display$$ math
+      remarkMath,
+      // Parse :::name container directives
+      remarkDirective,
+      // Render :::code-group as tabs
+      remarkCodeGroup,
+      remarkGallery,
       [
         remarkLinkEmbed,
         {
           enableTweetEmbed: yamlConfig.content?.enableTweetEmbed ?? true,
           enableOGPreview: yamlConfig.content?.enableOGPreview ?? true,
+          providers: yamlConfig.content?.embedProviders,
+          cacheTime: yamlConfig.content?.previewCacheTime,
+          offline: yamlConfig.content?.previewCacheMode === 'offline',
         },
       ],
+      // Resolve [@key] citations and append the bibliography
+      [remarkCitations, { bibliography: yamlConfig.content?.bibliography }],
+      // Render :::tip callouts and > [!NOTE] alerts; keep last, it restores unhandled :text directives
+      remarkAdmonitions,
     ],
     // Configure rehype plugins for automatic heading IDs and anchor links
     rehypePlugins: [
+      // Render math to HTML + MathML at build time (no client-side KaTeX)
+      rehypeKatex,
       rehypeSlug,
       [
         rehypeAutolinkHeadings,
@@ -94,6 +141,8 @@ export default defineConfig({
         },
       ],
       rehypeImagePlaceholder,
+      // Footnote hover previews via astro-tooltips
+      rehypeFootnoteTooltips,
     ],
     syntaxHighlight: {
       type: 'shiki',
@@ -104,6 +153,8 @@ export default defineConfig({
         light: 'github-light',
         dark: 'github-dark',
       },
+      // Meta strings (title="...", {1,3-5}, showLineNumbers) and [!code ++] style notations
+      transformers: codeBlockTransformers(),
     },
   },
   integrations: [
@@ -136,7 +187,7 @@ export default defineConfig({
   },
   vite: {
     plugins: [
-      yaml(),
+      siteConfigModule(),
       conditionalSnowfall(),
       svgr(),
       tailwindcss(),
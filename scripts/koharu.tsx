@@ -4,11 +4,14 @@ import { Select } from '@inkjs/ui';
 import { Box, render, Text, useApp } from 'ink';
 import { useState } from 'react';
 import { BackupApp } from './koharu/backup.js';
+import { CacheApp } from './koharu/cache.js';
 import { CleanApp } from './koharu/clean.js';
+import { ConfigApp } from './koharu/config.js';
 import { GenerateApp } from './koharu/generate.js';
 import { HelpApp } from './koharu/help.js';
 import { ListApp } from './koharu/list.js';
 import { RestoreApp } from './koharu/restore.js';
+import { ScheduleApp } from './koharu/schedule.js';
 import { BACKUP_DIR, getBackupList, parseArgs } from './koharu/shared.js';
 import { UpdateApp } from './koharu/update.js';
 
@@ -27,6 +30,9 @@ Usage:
   pnpm koharu clean        Clean old backups
   pnpm koharu list         View all backups
   pnpm koharu generate     Generate content assets
+  pnpm koharu schedule     List scheduled posts and the next rebuild time
+  pnpm koharu config check Validate the merged site config
+  pnpm koharu cache        List cached link previews
 
 Backup options:
   --full                   Full backup (includes all images and assets)
@@ -52,13 +58,31 @@ Generate options:
   --model <name>                    Specify LLM model (for summaries)
   --force                           Force regeneration (for summaries)
 
+Cache options:
+  pnpm koharu cache list            List cached link previews (expired and failed ones are marked)
+  pnpm koharu cache refresh         Refetch expired and failed previews (--force: all)
+  pnpm koharu cache prune           Remove previews no post links to and failed fetches
+  pnpm koharu cache export [file]   Write a snapshot to commit (default: src/assets/link-previews.json)
+  pnpm koharu cache import [file]   Merge a snapshot into the local cache
+
 General options:
   --help, -h               Display help information
 `);
   process.exit(0);
 }
 
-type AppMode = 'menu' | 'backup' | 'restore' | 'update' | 'clean' | 'list' | 'help' | 'generate';
+type AppMode =
+  | 'menu'
+  | 'backup'
+  | 'restore'
+  | 'update'
+  | 'clean'
+  | 'list'
+  | 'help'
+  | 'generate'
+  | 'schedule'
+  | 'config'
+  | 'cache';
 
 function KoharuApp() {
   const { exit } = useApp();
@@ -73,6 +97,9 @@ function KoharuApp() {
     if (args.command === 'list') return 'list';
     if (args.command === 'help') return 'help';
     if (args.command === 'generate') return 'generate';
+    if (args.command === 'schedule') return 'schedule';
+    if (args.command === 'config') return 'config';
+    if (args.command === 'cache') return 'cache';
     return 'menu';
   });
 
@@ -126,7 +153,7 @@ function KoharuApp() {
         <Box flexDirection="column">
           <Text>Please select an operation:</Text>
           <Select
-            visibleOptionCount={8}
+            visibleOptionCount={11}
             options={[
               { label: 'Backup - Backup blog content and configuration', value: 'backup' },
               { label: 'Restore - Restore from backup', value: 'restore' },
@@ -134,6 +161,9 @@ function KoharuApp() {
               { label: 'Generate - Generate content assets (LQIP, similarity, summaries)', value: 'generate' },
               { label: 'Clean - Clean old backups', value: 'clean' },
               { label: 'List - View all backups', value: 'list' },
+              { label: 'Schedule - View scheduled posts', value: 'schedule' },
+              { label: 'Config - Validate site configuration', value: 'config' },
+              { label: 'Cache - View cached link previews', value: 'cache' },
               { label: 'Help - View command usage', value: 'help' },
               { label: 'Exit', value: 'exit' },
             ]}
@@ -170,6 +200,20 @@ function KoharuApp() {
 
       {mode === 'help' && <HelpApp showReturnHint={fromMenu} onComplete={handleComplete} />}
 
+      {mode === 'schedule' && <ScheduleApp showReturnHint={fromMenu} onComplete={handleComplete} />}
+
+      {mode === 'config' && <ConfigApp action={args.subcommand} showReturnHint={fromMenu} onComplete={handleComplete} />}
+
+      {mode === 'cache' && (
+        <CacheApp
+          action={args.subcommand}
+          file={args.cacheFile || undefined}
+          force={args.force}
+          showReturnHint={fromMenu}
+          onComplete={handleComplete}
+        />
+      )}
+
       {mode === 'generate' && (
         <GenerateApp
           initialType={args.generateType || undefined}
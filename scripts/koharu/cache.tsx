@@ -0,0 +1,212 @@
+import { Spinner } from '@inkjs/ui';
+import { Box, Text } from 'ink';
+import { useEffect, useState } from 'react';
+import {
+  AUTO_EXIT_DELAY,
+  CACHE_ACTIONS,
+  type CacheAction,
+  type CacheEntryInfo,
+  type CachePruneResult,
+  type CacheRefreshResult,
+  type CacheTransferResult,
+  exportCache,
+  importCache,
+  listCacheEntries,
+  pruneCache,
+  refreshCache,
+  usePressAnyKey,
+  useRetimer,
+} from './shared';
+
+type CacheResult =
+  | { action: 'list'; entries: CacheEntryInfo[] }
+  | { action: 'refresh'; result: CacheRefreshResult }
+  | { action: 'prune'; result: CachePruneResult }
+  | { action: 'export' | 'import'; result: CacheTransferResult };
+
+interface CacheAppProps {
+  /** Subcommand, defaults to 'list' */
+  action?: string | null;
+  /** Snapshot file for export/import */
+  file?: string;
+  /** Refresh every entry, not only expired and failed ones */
+  force?: boolean;
+  showReturnHint?: boolean;
+  onComplete?: () => void;
+}
+
+export function CacheApp({ action, file, force = false, showReturnHint = false, onComplete }: CacheAppProps) {
+  const cacheAction = (action || 'list') as CacheAction;
+  const isSupported = CACHE_ACTIONS.includes(cacheAction);
+  const [result, setResult] = useState<CacheResult | null>(null);
+  const [error, setError] = useState('');
+  const [progress, setProgress] = useState('');
+  const retimer = useRetimer();
+
+  useEffect(() => {
+    if (!isSupported) return;
+    let cancelled = false;
+
+    const run = async (): Promise<CacheResult> => {
+      switch (cacheAction) {
+        case 'refresh':
+          return {
+            action: 'refresh',
+            result: await refreshCache({
+              force,
+              onProgress: (done, total, key) => !cancelled && setProgress(`${done + 1}/${total} ${key}`),
+            }),
+          };
+        case 'prune':
+          return { action: 'prune', result: pruneCache() };
+        case 'export':
+          return { action: 'export', result: exportCache(file) };
+        case 'import':
+          return { action: 'import', result: importCache(file) };
+        default:
+          return { action: 'list', entries: listCacheEntries() };
+      }
+    };
+
+    run()
+      .then((value) => !cancelled && setResult(value))
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : String(err)));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheAction, isSupported, file, force]);
+
+  const finished = !isSupported || result !== null || error !== '';
+
+  // Listen for key press to return to main menu
+  usePressAnyKey(finished && showReturnHint, () => {
+    onComplete?.();
+  });
+
+  // Auto exit if return hint is not shown
+  useEffect(() => {
+    if (!finished) return;
+    if (!isSupported || error) {
+      process.exitCode = 1;
+    }
+    if (!showReturnHint) {
+      retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+    }
+    return () => retimer();
+  }, [finished, isSupported, error, showReturnHint, onComplete, retimer]);
+
+  const returnHint = showReturnHint && finished && (
+    <Box marginTop={1}>
+      <Text dimColor>Press any key to return to main menu...</Text>
+    </Box>
+  );
+
+  if (!isSupported) {
+    return (
+      <Box flexDirection="column">
+        <Text color="red">Unknown cache command: {action}</Text>
+        <Text dimColor>Usage: pnpm koharu cache [{CACHE_ACTIONS.join('|')}]</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box flexDirection="column">
+        <Text bold color="red">
+          Cache {cacheAction} failed
+        </Text>
+        <Text color="red">{error}</Text>
+        {returnHint}
+      </Box>
+    );
+  }
+
+  if (!result) {
+    return (
+      <Box>
+        <Spinner label={progress ? `Refreshing ${progress}` : 'Reading link preview cache...'} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {result.action === 'list' &&
+        (result.entries.length === 0 ? (
+          <Box flexDirection="column">
+            <Text color="yellow">Link preview cache is empty</Text>
+            <Text dimColor>It is filled by 'pnpm build', or from a snapshot with 'pnpm koharu cache import'</Text>
+          </Box>
+        ) : (
+          <Box flexDirection="column">
+            {result.entries.map((entry) => (
+              <Box key={entry.key}>
+                <Text color={entry.failed ? 'red' : entry.expired ? 'yellow' : 'green'}>{'  '}* </Text>
+                <Text color="cyan">{entry.provider ?? 'og'} </Text>
+                <Text>{entry.url}</Text>
+                <Text dimColor> {entry.fetchedAt.toISOString().replace('T', ' ').slice(0, 16)} UTC</Text>
+                {entry.failed && <Text color="red"> [Failed]</Text>}
+                {!entry.failed && entry.expired && <Text color="yellow"> [Expired]</Text>}
+              </Box>
+            ))}
+            <Box marginTop={1}>
+              <Text dimColor>
+                {result.entries.length} entries, {result.entries.filter((e) => e.expired).length} expired,{' '}
+                {result.entries.filter((e) => e.failed).length} failed
+              </Text>
+            </Box>
+          </Box>
+        ))}
+
+      {result.action === 'refresh' && (
+        <Box flexDirection="column">
+          {result.result.failed.map((key) => (
+            <Text key={key}>
+              <Text color="red">{'  '}✗ </Text>
+              <Text>{key}</Text>
+            </Text>
+          ))}
+          <Text>
+            Refreshed: <Text color="green">{result.result.refreshed.length}</Text>
+            {result.result.failed.length > 0 && (
+              <>
+                {' '}
+                Failed: <Text color="red">{result.result.failed.length}</Text> (previous data kept)
+              </>
+            )}
+          </Text>
+        </Box>
+      )}
+
+      {result.action === 'prune' && (
+        <Box flexDirection="column">
+          {[...result.result.unused, ...result.result.failed].map((key) => (
+            <Text key={key}>
+              <Text color="yellow">{'  '}- </Text>
+              <Text>{key}</Text>
+            </Text>
+          ))}
+          <Text>
+            Removed {result.result.unused.length} unused and {result.result.failed.length} failed entries
+          </Text>
+        </Box>
+      )}
+
+      {result.action === 'export' && (
+        <Text color="green">
+          Exported {result.result.count} entries to {result.result.file}
+        </Text>
+      )}
+
+      {result.action === 'import' && (
+        <Text color="green">
+          Imported {result.result.count} new or updated entries from {result.result.file}
+        </Text>
+      )}
+
+      {returnHint}
+    </Box>
+  );
+}
@@ -0,0 +1,87 @@
+import { Box, Text } from 'ink';
+import { useEffect, useState } from 'react';
+import { AUTO_EXIT_DELAY, type ConfigCheckResult, checkSiteConfig, usePressAnyKey, useRetimer } from './shared';
+
+interface ConfigAppProps {
+  /** Subcommand, only 'check' is supported */
+  action?: string | null;
+  showReturnHint?: boolean;
+  onComplete?: () => void;
+}
+
+export function ConfigApp({ action = 'check', showReturnHint = false, onComplete }: ConfigAppProps) {
+  const isSupported = !action || action === 'check';
+  const [result] = useState<ConfigCheckResult | null>(() => (isSupported ? checkSiteConfig() : null));
+  const retimer = useRetimer();
+
+  // Listen for key press to return to main menu
+  usePressAnyKey(showReturnHint, () => {
+    onComplete?.();
+  });
+
+  // Auto exit if return hint is not shown
+  useEffect(() => {
+    if (!result || result.errors.length) {
+      process.exitCode = 1;
+    }
+    if (!showReturnHint) {
+      retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+    }
+    return () => retimer();
+  }, [result, showReturnHint, onComplete, retimer]);
+
+  if (!result) {
+    return (
+      <Box flexDirection="column">
+        <Text color="red">Unknown config command: {action}</Text>
+        <Text dimColor>Usage: pnpm koharu config check</Text>
+      </Box>
+    );
+  }
+
+  const { sources, errors, warnings } = result;
+
+  return (
+    <Box flexDirection="column">
+      <Text bold>Checking {sources.join(' + ')}</Text>
+      {errors.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          {errors.map((issue) => (
+            <Text key={`error-${issue.path}-${issue.message}`}>
+              <Text color="red">{'  '}x </Text>
+              <Text color="cyan">{issue.path}</Text>
+              <Text> {issue.message}</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+      {warnings.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          {warnings.map((issue) => (
+            <Text key={`warning-${issue.path}`}>
+              <Text color="yellow">{'  '}! </Text>
+              <Text color="cyan">{issue.path}</Text>
+              <Text> {issue.message}</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+      <Box marginTop={1}>
+        {errors.length > 0 ? (
+          <Text color="red">
+            {errors.length} errors, {warnings.length} warnings. The build will fail until the errors are fixed.
+          </Text>
+        ) : warnings.length > 0 ? (
+          <Text color="yellow">Configuration is valid with {warnings.length} warnings</Text>
+        ) : (
+          <Text color="green">Configuration is valid</Text>
+        )}
+      </Box>
+      {showReturnHint && (
+        <Box marginTop={1}>
+          <Text dimColor>Press any key to return to main menu...</Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,6 @@
+export type CacheAction = 'list' | 'refresh' | 'prune' | 'export' | 'import';
+
+export const CACHE_ACTIONS: CacheAction[] = ['list', 'refresh', 'prune', 'export', 'import'];
+
+/** Fallback when config/site.yaml has no content.previewCacheTime (seconds) */
+export const DEFAULT_PREVIEW_CACHE_TIME = 3600;
@@ -1,4 +1,5 @@
 export * from './backup';
+export * from './cache';
 export * from './generate';
 export * from './paths';
 export * from './ui';
@@ -3,5 +3,17 @@ import path from 'node:path';
 /** Project root directory */
 export const PROJECT_ROOT = path.resolve(import.meta.dirname, '../../..');
 
+/** Blog posts directory */
+export const CONTENT_DIR = path.join(PROJECT_ROOT, 'src/content/blog');
+
+/** Site configuration file */
+export const SITE_CONFIG_FILE = path.join(PROJECT_ROOT, 'config/site.yaml');
+
 /** Backup storage directory */
 export const BACKUP_DIR = path.join(PROJECT_ROOT, 'backups');
+
+/** Local link preview cache, written by builds */
+export const LINK_PREVIEW_CACHE_PATH = path.join(PROJECT_ROOT, '.cache/og-data.json');
+
+/** Committed link preview snapshot, read by builds before the local cache */
+export const LINK_PREVIEW_SNAPSHOT_PATH = path.join(PROJECT_ROOT, 'src/assets/link-previews.json');
@@ -33,6 +33,9 @@ export function HelpApp({ showReturnHint = false, onComplete }: HelpAppProps) {
         <Text> pnpm koharu generate Generate content assets</Text>
         <Text> pnpm koharu clean Clean old backups</Text>
         <Text> pnpm koharu list View all backups</Text>
+        <Text> pnpm koharu schedule List scheduled posts and the next rebuild time</Text>
+        <Text> pnpm koharu config check Validate the merged site config</Text>
+        <Text> pnpm koharu cache List cached link previews</Text>
       </Box>
 
       <Box flexDirection="column" marginBottom={1}>
@@ -62,6 +65,14 @@ export function HelpApp({ showReturnHint = false, onComplete }: HelpAppProps) {
         <Text> --force Force regeneration</Text>
       </Box>
 
+      <Box flexDirection="column" marginBottom={1}>
+        <Text bold>Cache options:</Text>
+        <Text> pnpm koharu cache refresh Refetch expired and failed previews (--force: all)</Text>
+        <Text> pnpm koharu cache prune Remove previews no post links to</Text>
+        <Text> pnpm koharu cache export [file] Write a snapshot to commit</Text>
+        <Text> pnpm koharu cache import [file] Merge a snapshot into the local cache</Text>
+      </Box>
+
       <Box flexDirection="column">
         <Text bold>General options:</Text>
         <Text> --help, -h Display help information</Text>
@@ -0,0 +1,70 @@
+import { Box, Text } from 'ink';
+import { useEffect, useState } from 'react';
+import { AUTO_EXIT_DELAY, formatTimeUntil, getScheduledPosts, type ScheduledPost, usePressAnyKey, useRetimer } from './shared';
+
+interface ScheduleAppProps {
+  showReturnHint?: boolean;
+  onComplete?: () => void;
+}
+
+export function ScheduleApp({ showReturnHint = false, onComplete }: ScheduleAppProps) {
+  const [now] = useState(() => new Date());
+  const [posts] = useState<ScheduledPost[]>(() => getScheduledPosts(now));
+  const retimer = useRetimer();
+
+  // Listen for key press to return to main menu
+  usePressAnyKey(showReturnHint, () => {
+    onComplete?.();
+  });
+
+  // Auto exit if return hint is not shown
+  useEffect(() => {
+    if (!showReturnHint) {
+      retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+    }
+    return () => retimer();
+  }, [showReturnHint, onComplete, retimer]);
+
+  if (posts.length === 0) {
+    return (
+      <Box flexDirection="column">
+        <Text color="yellow">No scheduled posts</Text>
+        <Text dimColor>Set 'publishAt' (or a future 'date') in a post's frontmatter to schedule it</Text>
+        {showReturnHint && (
+          <Box marginTop={1}>
+            <Text dimColor>Press any key to return to main menu...</Text>
+          </Box>
+        )}
+      </Box>
+    );
+  }
+
+  const nextPost = posts[0];
+
+  return (
+    <Box flexDirection="column">
+      <Box flexDirection="column">
+        {posts.map((post) => (
+          <Box key={post.file}>
+            <Text color="green">{'  '}* </Text>
+            <Text color="cyan">{post.publishAt.toISOString().replace('T', ' ').slice(0, 16)} UTC</Text>
+            <Text color="yellow"> (in {formatTimeUntil(post.publishAt, now)})</Text>
+            <Text> {post.title}</Text>
+            <Text dimColor> {post.file}</Text>
+          </Box>
+        ))}
+      </Box>
+      <Box marginTop={1} flexDirection="column">
+        <Text dimColor>{posts.length} scheduled posts</Text>
+        <Text>
+          Next rebuild needed at <Text bold>{nextPost.publishAt.toISOString()}</Text> to publish "{nextPost.title}"
+        </Text>
+      </Box>
+      {showReturnHint && (
+        <Box marginTop={1}>
+          <Text dimColor>Press any key to return to main menu...</Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
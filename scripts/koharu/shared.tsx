@@ -9,24 +9,45 @@
  */
 
 // Common types
-export type { BackupItem, BackupType, GenerateType } from './constants';
+export type { BackupItem, BackupType, CacheAction, GenerateType } from './constants';
 // Common constants
-export { AUTO_EXIT_DELAY, BACKUP_DIR, PROJECT_ROOT } from './constants';
+export { AUTO_EXIT_DELAY, BACKUP_DIR, CACHE_ACTIONS, PROJECT_ROOT } from './constants';
 
 // Hooks
 export { usePressAnyKey, useRetimer } from './hooks';
-export type { BackupInfo, BackupOutput, BackupResult, DeleteResult, ParsedArgs, RestorePreviewItem } from './utils';
+export type {
+  BackupInfo,
+  BackupOutput,
+  BackupResult,
+  CacheEntryInfo,
+  CachePruneResult,
+  CacheRefreshResult,
+  CacheTransferResult,
+  ConfigCheckResult,
+  DeleteResult,
+  ParsedArgs,
+  RestorePreviewItem,
+  ScheduledPost,
+} from './utils';
 // Common utilities
 // Backup operations
 // Restore operations
 // Clean operations
 export {
+  checkSiteConfig,
   deleteBackups,
+  exportCache,
   formatSize,
+  formatTimeUntil,
   getBackupList,
   getRestorePreview,
+  getScheduledPosts,
   getVersion,
+  importCache,
+  listCacheEntries,
   parseArgs,
+  pruneCache,
+  refreshCache,
   restoreBackup,
   runBackup,
   tarExtractManifest,
@@ -10,6 +10,10 @@ export interface ParsedArgs {
   help: boolean;
   keep: number | null;
   backupFile: string;
+  /** Second positional argument of commands with subcommands (e.g. 'check' in `koharu config check`) */
+  subcommand: string | null;
+  /** Snapshot file of `koharu cache export/import` */
+  cacheFile: string;
   // Generate command options
   generateType: GenerateType | 'all' | null;
   model: string | null;
@@ -34,6 +38,8 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
     help: false,
     keep: null,
     backupFile: '',
+    subcommand: null,
+    cacheFile: '',
     generateType: null,
     model: null,
     check: false,
@@ -75,6 +81,10 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
         if (GENERATE_TYPES.includes(arg as (typeof GENERATE_TYPES)[number])) {
           args.generateType = arg as GenerateType | 'all';
         }
+      } else if ((args.command === 'config' || args.command === 'cache') && !args.subcommand) {
+        args.subcommand = arg;
+      } else if (args.command === 'cache') {
+        args.cacheFile = arg;
       } else {
         args.backupFile = arg;
       }
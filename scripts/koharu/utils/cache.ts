@@ -0,0 +1,162 @@
+import fs from 'node:fs';
+import { glob } from 'glob';
+import { loadSiteConfig } from '../../../src/lib/config/loader';
+import {
+  isFailedEntry,
+  isFreshEntry,
+  type LinkPreviewCache,
+  mergeLinkPreviewCaches,
+  parseCacheKey,
+  readLinkPreviewCache,
+  writeLinkPreviewCache,
+} from '../../../src/lib/markdown/link-preview-cache';
+import { fetchLinkPreviewData } from '../../../src/lib/markdown/remark-link-embed';
+import {
+  CONTENT_DIR,
+  DEFAULT_PREVIEW_CACHE_TIME,
+  LINK_PREVIEW_CACHE_PATH,
+  LINK_PREVIEW_SNAPSHOT_PATH,
+  PROJECT_ROOT,
+} from '../constants';
+
+export interface CacheEntryInfo {
+  key: string;
+  /** Embed provider for provider metadata, null for OG data */
+  provider: string | null;
+  url: string;
+  fetchedAt: Date;
+  expired: boolean;
+  failed: boolean;
+}
+
+export interface CacheRefreshResult {
+  refreshed: string[];
+  /** Keys whose fetch failed, their previous entry is kept */
+  failed: string[];
+}
+
+export interface CachePruneResult {
+  /** Keys removed because no post links to them anymore */
+  unused: string[];
+  /** Keys removed because their fetch failed */
+  failed: string[];
+}
+
+export interface CacheTransferResult {
+  file: string;
+  /** Entries written (export) or added/updated (import) */
+  count: number;
+}
+
+/**
+ * Cache entry lifetime from content.previewCacheTime, in milliseconds
+ */
+function getCacheMaxAge(): number {
+  const { config } = loadSiteConfig({ root: PROJECT_ROOT });
+  const content = config.content as { previewCacheTime?: unknown } | undefined;
+  const seconds = typeof content?.previewCacheTime === 'number' ? content.previewCacheTime : DEFAULT_PREVIEW_CACHE_TIME;
+  return seconds * 1000;
+}
+
+/**
+ * Snapshot and local cache merged, the way builds see them
+ */
+function loadMergedCache(): LinkPreviewCache {
+  return mergeLinkPreviewCaches(
+    readLinkPreviewCache(LINK_PREVIEW_SNAPSHOT_PATH),
+    readLinkPreviewCache(LINK_PREVIEW_CACHE_PATH),
+  );
+}
+
+/**
+ * List cached link previews, sorted by key
+ */
+export function listCacheEntries(now: number = Date.now()): CacheEntryInfo[] {
+  const maxAge = getCacheMaxAge();
+  return Object.entries(loadMergedCache())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, entry]) => ({
+      key,
+      ...parseCacheKey(key),
+      fetchedAt: new Date(entry.timestamp),
+      expired: !isFreshEntry(entry, maxAge, now),
+      failed: isFailedEntry(entry),
+    }));
+}
+
+/**
+ * Refetch expired and failed entries (all entries with force) into the local cache
+ * Runs one request at a time, a failed refetch keeps the previous entry
+ */
+export async function refreshCache(
+  options: { force?: boolean; onProgress?: (done: number, total: number, key: string) => void } = {},
+): Promise<CacheRefreshResult> {
+  const { force = false, onProgress } = options;
+  const maxAge = getCacheMaxAge();
+  const cache = loadMergedCache();
+  const keys = Object.keys(cache).filter((key) => force || !isFreshEntry(cache[key], maxAge) || isFailedEntry(cache[key]));
+  const result: CacheRefreshResult = { refreshed: [], failed: [] };
+
+  for (const [index, key] of keys.entries()) {
+    onProgress?.(index, keys.length, key);
+    const data = await fetchLinkPreviewData(key);
+    const entry = { data, timestamp: Date.now() };
+    if (data === null || isFailedEntry(entry)) {
+      result.failed.push(key);
+      continue;
+    }
+    cache[key] = entry;
+    result.refreshed.push(key);
+  }
+
+  if (result.refreshed.length > 0) writeLinkPreviewCache(LINK_PREVIEW_CACHE_PATH, cache);
+  return result;
+}
+
+/**
+ * Remove entries no post links to anymore, and failed fetches, from the local cache and the snapshot
+ */
+export function pruneCache(): CachePruneResult {
+  const files = glob.sync('**/*.{md,mdx}', { cwd: CONTENT_DIR, absolute: true });
+  const content = files.map((file) => fs.readFileSync(file, 'utf-8')).join('\n');
+  const result: CachePruneResult = { unused: [], failed: [] };
+
+  for (const file of [LINK_PREVIEW_CACHE_PATH, LINK_PREVIEW_SNAPSHOT_PATH]) {
+    if (!fs.existsSync(file)) continue;
+
+    const cache = readLinkPreviewCache(file);
+    const kept: LinkPreviewCache = {};
+    for (const [key, entry] of Object.entries(cache)) {
+      const bucket = !content.includes(parseCacheKey(key).url) ? result.unused : isFailedEntry(entry) ? result.failed : null;
+      if (!bucket) kept[key] = entry;
+      else if (!bucket.includes(key)) bucket.push(key);
+    }
+    writeLinkPreviewCache(file, kept);
+  }
+
+  return result;
+}
+
+/**
+ * Write the merged cache, without failed fetches, to a snapshot file for committing
+ */
+export function exportCache(file: string = LINK_PREVIEW_SNAPSHOT_PATH): CacheTransferResult {
+  const snapshot = Object.fromEntries(Object.entries(loadMergedCache()).filter(([, entry]) => !isFailedEntry(entry)));
+  writeLinkPreviewCache(file, snapshot);
+  return { file, count: Object.keys(snapshot).length };
+}
+
+/**
+ * Merge a snapshot file into the local cache (newer entries win)
+ */
+export function importCache(file: string = LINK_PREVIEW_SNAPSHOT_PATH): CacheTransferResult {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Snapshot not found: ${file}`);
+  }
+
+  const local = readLinkPreviewCache(LINK_PREVIEW_CACHE_PATH);
+  const merged = mergeLinkPreviewCaches(local, readLinkPreviewCache(file));
+  const count = Object.keys(merged).filter((key) => merged[key] !== local[key]).length;
+  writeLinkPreviewCache(LINK_PREVIEW_CACHE_PATH, merged);
+  return { file, count };
+}
@@ -0,0 +1,34 @@
+import fs from 'node:fs';
+import yaml from 'js-yaml';
+import { LOCAL_CONFIG_FILE, loadSiteConfig, SITE_CONFIG_FILE } from '../../../src/lib/config/loader';
+import { type ConfigIssue, validateSiteConfig } from '../../../src/lib/config/schema';
+import { PROJECT_ROOT, SITE_CONFIG_FILE as SITE_CONFIG_PATH } from '../constants';
+
+export interface ConfigCheckResult {
+  /** Config files and JEET_* env variables that were merged, lowest precedence first */
+  sources: string[];
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+/**
+ * Validate the merged site config (site.yaml + site.local.yaml + JEET_* env) against the site config schema
+ * YAML syntax errors are reported as a single error with the line number
+ */
+export function checkSiteConfig(): ConfigCheckResult {
+  if (!fs.existsSync(SITE_CONFIG_PATH)) {
+    return { sources: [SITE_CONFIG_FILE], errors: [{ path: '(file)', message: 'File not found' }], warnings: [] };
+  }
+
+  try {
+    const { config, sources } = loadSiteConfig({ root: PROJECT_ROOT });
+    return { sources, ...validateSiteConfig(config) };
+  } catch (error) {
+    const message = error instanceof yaml.YAMLException ? error.message : String(error);
+    return {
+      sources: [SITE_CONFIG_FILE, LOCAL_CONFIG_FILE],
+      errors: [{ path: '(syntax)', message }],
+      warnings: [],
+    };
+  }
+}
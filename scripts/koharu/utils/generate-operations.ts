@@ -68,13 +68,11 @@ export async function runGenerate(type: GenerateType, options: GenerateOptions =
   }
 
   const args: string[] = [];
-  if (type === 'summaries') {
-    if (options.model) {
-      args.push('--model', options.model);
-    }
-    if (options.force) {
-      args.push('--force');
-    }
+  if (type === 'summaries' && options.model) {
+    args.push('--model', options.model);
+  }
+  if ((type === 'summaries' || type === 'lqips') && options.force) {
+    args.push('--force');
   }
 
   return runScript(item.script, args);
@@ -7,9 +7,25 @@ export { type BackupInfo, getBackupList, parseBackupManifest } from './backup';
 // Backup operations
 export { type BackupOutput, type BackupResult, runBackup } from './backup-operations';
 
+// Cache operations
+export {
+  type CacheEntryInfo,
+  type CachePruneResult,
+  type CacheRefreshResult,
+  type CacheTransferResult,
+  exportCache,
+  importCache,
+  listCacheEntries,
+  pruneCache,
+  refreshCache,
+} from './cache';
+
 // Clean operations
 export { type DeleteResult, deleteBackups } from './clean-operations';
 
+// Config utilities
+export { type ConfigCheckResult, checkSiteConfig } from './config';
+
 // Format utilities
 export { formatSize } from './format';
 
@@ -26,6 +42,9 @@ export {
 // Restore operations
 export { getRestorePreview, type RestorePreviewItem, restoreBackup } from './restore-operations';
 
+// Schedule utilities
+export { formatTimeUntil, getScheduledPosts, type ScheduledPost } from './schedule';
+
 // Tar utilities
 export { tarCreate, tarExtract, tarExtractManifest, tarList } from './tar';
 // Update state machine
@@ -0,0 +1,66 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { glob } from 'glob';
+import matter from 'gray-matter';
+import { CONTENT_DIR, PROJECT_ROOT } from '../constants';
+
+export interface ScheduledPost {
+  title: string;
+  /** File path relative to the project root */
+  file: string;
+  /** Time the post goes live (`publishAt`, or a future `date`) */
+  publishAt: Date;
+}
+
+/**
+ * Parse a frontmatter date (YAML dates are parsed by gray-matter, strings are accepted as a fallback)
+ */
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Get posts that are hidden from production builds until a future date
+ * Mirrors isScheduledPost in src/lib/content/publish.ts; drafts are skipped since they never go live
+ * @param now Reference time
+ * @returns Scheduled posts, soonest first
+ */
+export function getScheduledPosts(now: Date = new Date()): ScheduledPost[] {
+  const files = glob.sync('**/*.{md,mdx}', { cwd: CONTENT_DIR, absolute: true });
+  const scheduled: ScheduledPost[] = [];
+
+  for (const file of files) {
+    const { data } = matter(fs.readFileSync(file, 'utf-8'));
+    if (data.draft === true) continue;
+
+    const publishAt = toDate(data.publishAt) ?? toDate(data.date);
+    if (!publishAt || publishAt.getTime() <= now.getTime()) continue;
+
+    scheduled.push({
+      title: typeof data.title === 'string' ? data.title : path.basename(file),
+      file: path.relative(PROJECT_ROOT, file),
+      publishAt,
+    });
+  }
+
+  return scheduled.sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime());
+}
+
+/**
+ * Format the time until a date, e.g. '2d 5h' or '45m'
+ */
+export function formatTimeUntil(date: Date, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.ceil((date.getTime() - now.getTime()) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
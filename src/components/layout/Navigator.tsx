@@ -10,6 +10,7 @@ import { RESERVED_ROUTES, routers } from '@constants/router';
 import { configuredSeriesSlugs, enabledSeriesSlugs } from '@constants/site-config';
 import { useScrollTrigger } from '@hooks/useScrollTrigger';
 import { Icon } from '@iconify/react';
+import { isPostPath } from '@lib/route';
 import { cn, filterNavItems } from '@lib/utils';
 import { useEffect, useRef, useState } from 'react';
 import DropdownNav from './DropdownNav';
@@ -67,7 +68,7 @@ export default function Navigator({ currentPath }: NavigatorProps) {
   useEffect(() => {
     const checkPostPageMobile = () => {
       const isMobile = window.innerWidth <= 992;
-      const isPostPage = window.location.pathname.startsWith('/post/');
+      const isPostPage = isPostPath(window.location.pathname);
       setIsPostPageMobile(isMobile && isPostPage);
     };
 
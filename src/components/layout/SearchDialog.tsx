@@ -2,18 +2,56 @@
  * SearchDialog Component
  *
  * A search dialog with keyboard navigation for searching blog posts.
- * Integrates with Pagefind for static site search.
+ * Built on the Pagefind JS API (see src/lib/search.ts): highlighted excerpts,
+ * category / tag / series / year facets, recent searches, and /search?q= deep links.
  */
 
+import { navigate } from 'astro:transitions/client';
 import { Dialog, DialogPortal } from '@components/ui/dialog';
+import { Routes } from '@constants/router';
 import { useIsMounted } from '@hooks/useIsMounted';
 import { useEscapeKey, useKeyboardShortcut } from '@hooks/useKeyboardShortcut';
+import {
+  getSearchFilters,
+  hasActiveFilters,
+  SEARCH_FILTERS,
+  type SearchFilterCounts,
+  type SearchFilterName,
+  type SearchFilters,
+  type SearchResult,
+  type SearchResultData,
+  searchPosts,
+  toSearchParams,
+} from '@lib/search';
 import { cn } from '@lib/utils';
 import { useStore } from '@nanostores/react';
-import { $isSearchOpen, closeModal, openModal } from '@store/modal';
+import { $isSearchOpen, $searchDialogData, closeModal, openModal } from '@store/modal';
+import { addRecentSearch, clearRecentSearches, initRecentSearches, recentSearches, removeRecentSearch } from '@store/search';
 import { AnimatePresence, motion } from 'motion/react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
+/** Results loaded per page ("Load more") */
+const RESULTS_PER_PAGE = 10;
+
+/** Sub results (matching sections) shown per result */
+const MAX_SUB_RESULTS = 2;
+
+const FILTER_LABELS: Record<SearchFilterName, string> = {
+  category: 'Category',
+  tag: 'Tag',
+  series: 'Series',
+  year: 'Year',
+};
+
+type SearchStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface LoadedResult extends SearchResultData {
+  id: string;
+}
+
+/** Keyboard-selectable entry: a result, the load more button or a recent search */
+type SelectableItem = { type: 'result'; result: LoadedResult } | { type: 'loadMore' } | { type: 'recent'; query: string };
+
 // Icons
 function SearchIcon({ className }: { className?: string }) {
   return (
@@ -33,11 +71,49 @@ function CloseIcon({ className }: { className?: string }) {
   );
 }
 
+function HistoryIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className={className}>
+      <title>Recent search</title>
+      <path d="M12 2C17.523 2 22 6.477 22 12C22 17.523 17.523 22 12 22C6.477 22 2 17.523 2 12H4C4 16.418 7.582 20 12 20C16.418 20 20 16.418 20 12C20 7.582 16.418 4 12 4C9.25 4 6.824 5.387 5.385 7.5H8V9.5H2V3.5H4V6C5.824 3.571 8.729 2 12 2ZM13 7V11.585L16.243 14.828L14.828 16.243L11 12.413V7H13Z" />
+    </svg>
+  );
+}
+
+/**
+ * Facet values, most used first (years newest first)
+ */
+function sortFilterValues(name: SearchFilterName, counts: Record<string, number>): string[] {
+  const values = Object.keys(counts);
+  if (name === 'year') return values.sort((a, b) => Number(b) - Number(a));
+  return values.sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+}
+
+function isSearchPage(): boolean {
+  return window.location.pathname.replace(/\/$/, '') === Routes.Search;
+}
+
 export default function SearchDialog() {
   const isOpen = useStore($isSearchOpen);
+  const dialogData = useStore($searchDialogData);
+  const recent = useStore(recentSearches);
+
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [status, setStatus] = useState<SearchStatus>('idle');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loadedResults, setLoadedResults] = useState<LoadedResult[]>([]);
+  // Facet counts of the whole index, and among the current results
+  const [allFilterCounts, setAllFilterCounts] = useState<SearchFilterCounts>({});
+  const [resultFilterCounts, setResultFilterCounts] = useState<SearchFilterCounts | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(-1);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const resultsObserverRef = useRef<MutationObserver | null>(null);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const itemRefs = useRef<Array<HTMLElement | null>>([]);
+  // Incremented per search, results of outdated searches are dropped
+  const searchIdRef = useRef(0);
+
+  const isSearching = query.trim() !== '' || hasActiveFilters(filters);
 
   // Cmd/Ctrl + K to open
   useKeyboardShortcut({
@@ -51,134 +127,143 @@ export default function SearchDialog() {
     if (isOpen) closeModal();
   }, isOpen);
 
-  // Get selectable items (results + load more button)
-  const getSelectableItems = useCallback((): HTMLElement[] => {
-    const results = Array.from(document.querySelectorAll('.pagefind-ui__result')) as HTMLElement[];
-    const loadMoreBtn = document.querySelector('.pagefind-ui__button') as HTMLElement | null;
-    if (loadMoreBtn && loadMoreBtn.offsetParent !== null) {
-      return [...results, loadMoreBtn];
-    }
-    return results;
+  useEffect(() => {
+    initRecentSearches();
   }, []);
 
-  // Clear selection
-  const clearSelection = useCallback(() => {
-    const items = getSelectableItems();
-    if (selectedIndex >= 0 && selectedIndex < items.length) {
-      items[selectedIndex]?.removeAttribute('data-selected');
-    }
-    setSelectedIndex(-1);
-  }, [selectedIndex, getSelectableItems]);
-
-  // Select a result
-  const selectResult = useCallback(
-    (index: number) => {
-      const items = getSelectableItems();
-      if (items.length === 0) {
-        setSelectedIndex(-1);
-        return;
-      }
-
-      const newIndex = Math.max(-1, Math.min(index, items.length - 1));
+  // Start from the query and facets passed to openSearch (e.g. /search?q=)
+  useEffect(() => {
+    if (!dialogData) return;
+    setQuery(dialogData.query ?? '');
+    setFilters(dialogData.filters ?? {});
+  }, [dialogData]);
 
-      // Remove old selection
-      if (selectedIndex >= 0 && selectedIndex < items.length) {
-        items[selectedIndex]?.removeAttribute('data-selected');
-      }
+  // Load facets and focus the input when opened
+  useEffect(() => {
+    if (!isOpen) return;
 
-      setSelectedIndex(newIndex);
+    getSearchFilters()
+      .then(setAllFilterCounts)
+      .catch((error) => {
+        console.warn('[Search] Failed to load the Pagefind index, run a build first in dev', error);
+        setStatus('error');
+      });
 
-      if (newIndex >= 0) {
-        items[newIndex].setAttribute('data-selected', 'true');
-        items[newIndex].scrollIntoView({ block: 'nearest', behavior: 'smooth' });
-      } else {
-        const searchInput = document.querySelector('.pagefind-ui__search-input') as HTMLInputElement;
-        searchInput?.focus();
-      }
-    },
-    [selectedIndex, getSelectableItems],
-  );
+    // Focus search input after animation
+    const timer = setTimeout(() => inputRef.current?.focus(), 150);
+    return () => clearTimeout(timer);
+  }, [isOpen]);
 
-  // Navigate to selected result
-  const navigateToSelected = useCallback(() => {
-    const items = getSelectableItems();
-    if (selectedIndex < 0 || selectedIndex >= items.length) return;
+  // Search whenever the query or facets change
+  useEffect(() => {
+    if (!isOpen) return;
 
-    const selectedItem = items[selectedIndex];
+    const searchId = ++searchIdRef.current;
+    setSelectedIndex(-1);
 
-    if (selectedItem.classList.contains('pagefind-ui__button')) {
-      selectedItem.click();
-      setSelectedIndex(-1);
+    if (!isSearching) {
+      setResults([]);
+      setLoadedResults([]);
+      setResultFilterCounts(null);
+      setStatus((current) => (current === 'error' ? current : 'idle'));
       return;
     }
 
-    const link = selectedItem.querySelector('.pagefind-ui__result-link') as HTMLAnchorElement;
-    if (link?.href) {
+    setStatus('loading');
+    searchPosts(query, filters)
+      .then(async (response) => {
+        // null: superseded by a newer search
+        if (!response || searchId !== searchIdRef.current) return;
+        const firstPage = await Promise.all(
+          response.results.slice(0, RESULTS_PER_PAGE).map(async (result) => ({ id: result.id, ...(await result.data()) })),
+        );
+        if (searchId !== searchIdRef.current) return;
+        setResults(response.results);
+        setLoadedResults(firstPage);
+        setResultFilterCounts(response.filters);
+        setStatus('ready');
+      })
+      .catch((error) => {
+        if (searchId !== searchIdRef.current) return;
+        console.warn('[Search] Search failed', error);
+        setStatus('error');
+      });
+  }, [isOpen, query, filters, isSearching]);
+
+  // Keep the /search URL shareable
+  useEffect(() => {
+    if (!isOpen || !isSearchPage()) return;
+    const params = toSearchParams(query, filters).toString();
+    history.replaceState(history.state, '', `${window.location.pathname}${params ? `?${params}` : ''}`);
+  }, [isOpen, query, filters]);
+
+  const loadMore = useCallback(async () => {
+    const searchId = searchIdRef.current;
+    const nextPage = await Promise.all(
+      results
+        .slice(loadedResults.length, loadedResults.length + RESULTS_PER_PAGE)
+        .map(async (result) => ({ id: result.id, ...(await result.data()) })),
+    );
+    if (searchId !== searchIdRef.current) return;
+    setLoadedResults((current) => [...current, ...nextPage]);
+  }, [results, loadedResults.length]);
+
+  const selectableItems = useMemo((): SelectableItem[] => {
+    if (!isSearching) return recent.map((recentQuery) => ({ type: 'recent', query: recentQuery }));
+    const items: SelectableItem[] = loadedResults.map((result) => ({ type: 'result', result }));
+    if (loadedResults.length < results.length) items.push({ type: 'loadMore' });
+    return items;
+  }, [isSearching, recent, loadedResults, results.length]);
+
+  const selectItem = useCallback(
+    (index: number) => {
+      const newIndex = Math.max(-1, Math.min(index, selectableItems.length - 1));
+      setSelectedIndex(newIndex);
+      itemRefs.current[newIndex]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    },
+    [selectableItems.length],
+  );
+
+  const openResult = useCallback(
+    (url: string) => {
+      addRecentSearch(query);
       closeModal();
-      window.location.href = link.href;
-    }
-  }, [selectedIndex, getSelectableItems]);
+      navigate(url);
+    },
+    [query],
+  );
 
-  // Handle keyboard navigation
-  useEffect(() => {
-    if (!isOpen) return;
+  const activateItem = useCallback(
+    (item: SelectableItem) => {
+      if (item.type === 'result') openResult(item.result.url);
+      else if (item.type === 'loadMore') loadMore();
+      else setQuery(item.query);
+    },
+    [openResult, loadMore],
+  );
 
-    const handleKeyDown = (e: KeyboardEvent) => {
+  const handleInputKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
       if (e.key === 'ArrowDown') {
         e.preventDefault();
-        selectResult(selectedIndex + 1);
+        selectItem(selectedIndex + 1);
       } else if (e.key === 'ArrowUp') {
         e.preventDefault();
-        selectResult(selectedIndex - 1);
-      } else if (e.key === 'Enter' && selectedIndex >= 0) {
+        selectItem(selectedIndex - 1);
+      } else if (e.key === 'Enter') {
         e.preventDefault();
-        navigateToSelected();
+        const item = selectableItems[selectedIndex];
+        if (item) activateItem(item);
+        // Remember searches confirmed without opening a result
+        else addRecentSearch(query);
       }
-    };
-
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, selectedIndex, selectResult, navigateToSelected]);
-
-  // Setup mutation observer to clear selection when results change
-  useEffect(() => {
-    if (!isOpen) {
-      resultsObserverRef.current?.disconnect();
-      resultsObserverRef.current = null;
-      return;
-    }
-
-    const container = document.getElementById('search-dialog-container');
-    if (!container) return;
-
-    resultsObserverRef.current = new MutationObserver(() => {
-      clearSelection();
-    });
-
-    resultsObserverRef.current.observe(container, {
-      childList: true,
-      subtree: true,
-    });
-
-    return () => {
-      resultsObserverRef.current?.disconnect();
-      resultsObserverRef.current = null;
-    };
-  }, [isOpen, clearSelection]);
+    },
+    [selectItem, selectedIndex, selectableItems, activateItem, query],
+  );
 
-  // Dispatch events for search component portal
-  useEffect(() => {
-    if (isOpen) {
-      window.dispatchEvent(new CustomEvent('search-dialog-open'));
-      // Focus search input after animation
-      setTimeout(() => {
-        const searchInput = document.querySelector('.pagefind-ui__search-input') as HTMLInputElement;
-        searchInput?.focus();
-      }, 150);
-    } else {
-      window.dispatchEvent(new CustomEvent('search-dialog-close'));
-    }
-  }, [isOpen]);
+  const setFilter = useCallback((name: SearchFilterName, value: string) => {
+    setFilters((current) => ({ ...current, [name]: value || undefined }));
+  }, []);
 
   // Close before page navigation
   useEffect(() => {
@@ -205,6 +290,13 @@ export default function SearchDialog() {
     [handleClose],
   );
 
+  const filterCounts = resultFilterCounts ?? allFilterCounts;
+  const itemClassName = (index: number) =>
+    cn(
+      'block w-full rounded-lg bg-black/3 p-3 text-left transition-colors duration-200 hover:bg-primary/5 dark:bg-white/5',
+      selectedIndex === index && 'bg-primary/5 ring-2 ring-primary/50 dark:bg-primary/10',
+    );
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
       <DialogPortal forceMount>
@@ -254,20 +346,191 @@ export default function SearchDialog() {
                         </button>
                       </div>
 
-                      {/* Empty hint */}
-                      <div
-                        id="search-empty-hint"
-                        className="search-empty-hint absolute inset-x-0 top-32 text-center text-sm opacity-60 md:top-28"
-                      >
-                        <p>Enter keywords to search blog posts</p>
-                        <p className="mt-1 text-xs">
-                          Press <kbd className="rounded bg-black/10 px-1.5 py-0.5 font-mono dark:bg-white/10">ESC</kbd> to close
-                        </p>
+                      {/* Search input */}
+                      <div className="flex items-center gap-2">
+                        <input
+                          ref={inputRef}
+                          type="search"
+                          value={query}
+                          onChange={(e) => setQuery(e.target.value)}
+                          onKeyDown={handleInputKeyDown}
+                          placeholder="Enter a keyword to search"
+                          aria-label="Search this site"
+                          className="h-10 min-w-0 flex-1 rounded-lg border border-black/10 bg-transparent px-4 outline-none transition-colors duration-300 focus:border-primary md:px-2 md:text-sm dark:border-white/15"
+                        />
+                        {(query || hasActiveFilters(filters)) && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setQuery('');
+                              setFilters({});
+                              inputRef.current?.focus();
+                            }}
+                            className="h-10 shrink-0 cursor-pointer rounded-lg bg-primary/20 px-2 font-medium text-primary text-sm transition-colors duration-200 hover:bg-primary hover:text-white"
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </div>
+
+                      {/* Facets */}
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {SEARCH_FILTERS.map((name) => {
+                          const counts = filterCounts[name] ?? {};
+                          const selected = filters[name] ?? '';
+                          const values = sortFilterValues(name, allFilterCounts[name] ?? {});
+                          if (!values.length) return null;
+                          return (
+                            <select
+                              key={name}
+                              value={selected}
+                              onChange={(e) => setFilter(name, e.target.value)}
+                              aria-label={`Filter by ${FILTER_LABELS[name].toLowerCase()}`}
+                              className={cn(
+                                'h-8 max-w-44 cursor-pointer rounded-full border border-black/10 bg-transparent px-3 text-xs transition-colors duration-200 dark:border-white/15',
+                                selected && 'border-primary/50 bg-primary/10 text-primary',
+                              )}
+                            >
+                              <option value="">All {FILTER_LABELS[name].toLowerCase()}s</option>
+                              {values.map((value) => (
+                                <option key={value} value={value} disabled={!counts[value] && value !== selected}>
+                                  {value} ({counts[value] ?? 0})
+                                </option>
+                              ))}
+                            </select>
+                          );
+                        })}
                       </div>
 
                       {/* Search Content Area */}
-                      <div className="vertical-scrollbar scroll-feather-mask -mx-6 h-[calc(80dvh-140px)] overflow-auto scroll-smooth px-6 pb-8 after:bottom-10 md:-mx-3 md:h-[calc(80dvh-120px)] md:px-3">
-                        <div id="search-dialog-container" ref={containerRef} />
+                      <div className="vertical-scrollbar scroll-feather-mask -mx-6 mt-3 h-[calc(80dvh-200px)] overflow-auto scroll-smooth px-6 pb-8 after:bottom-10 md:-mx-3 md:h-[calc(80dvh-180px)] md:px-3">
+                        {status === 'error' && (
+                          <p className="pt-12 text-center text-sm opacity-60">
+                            Search is unavailable. The search index is generated when the site is built.
+                          </p>
+                        )}
+
+                        {status !== 'error' &&
+                          !isSearching &&
+                          (recent.length > 0 ? (
+                            <div>
+                              <div className="mb-2 flex items-center justify-between text-xs opacity-60">
+                                <span>Recent searches</span>
+                                <button
+                                  type="button"
+                                  onClick={clearRecentSearches}
+                                  className="cursor-pointer hover:text-primary"
+                                >
+                                  Clear history
+                                </button>
+                              </div>
+                              <ul className="flex flex-col gap-1">
+                                {recent.map((recentQuery, index) => (
+                                  <li key={recentQuery} className="group relative">
+                                    <button
+                                      type="button"
+                                      ref={(el) => {
+                                        itemRefs.current[index] = el;
+                                      }}
+                                      onClick={() => setQuery(recentQuery)}
+                                      data-selected={selectedIndex === index || undefined}
+                                      className={cn(itemClassName(index), 'flex items-center gap-2 py-2 pr-10')}
+                                    >
+                                      <HistoryIcon className="size-4 shrink-0 opacity-50" />
+                                      <span className="truncate">{recentQuery}</span>
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => removeRecentSearch(recentQuery)}
+                                      className="absolute top-1/2 right-2 flex size-6 -translate-y-1/2 cursor-pointer items-center justify-center rounded-full opacity-50 hover:bg-black/10 hover:opacity-100 dark:hover:bg-white/10"
+                                      aria-label={`Remove "${recentQuery}" from recent searches`}
+                                    >
+                                      <CloseIcon className="size-3.5" />
+                                    </button>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          ) : (
+                            <div className="pt-12 text-center text-sm opacity-60">
+                              <p>Enter keywords to search blog posts</p>
+                              <p className="mt-1 text-xs">Or pick a category, tag, series or year</p>
+                            </div>
+                          ))}
+
+                        {status !== 'error' && isSearching && (
+                          <>
+                            <p className="pb-2 text-center text-sm opacity-60" aria-live="polite">
+                              {status === 'loading'
+                                ? 'Searching...'
+                                : results.length
+                                  ? `${results.length} ${results.length === 1 ? 'result' : 'results'}`
+                                  : 'No results found'}
+                            </p>
+                            <ul className="flex flex-col gap-2">
+                              {loadedResults.map((result, index) => (
+                                <li key={result.id}>
+                                  <a
+                                    href={result.url}
+                                    ref={(el) => {
+                                      itemRefs.current[index] = el;
+                                    }}
+                                    onClick={() => addRecentSearch(query)}
+                                    data-selected={selectedIndex === index || undefined}
+                                    className={cn(itemClassName(index), 'group')}
+                                  >
+                                    <span className="block font-medium text-primary transition-colors duration-300 group-hover:text-blue">
+                                      {result.meta.title ?? result.url}
+                                    </span>
+                                    <span className="mt-0.5 flex flex-wrap gap-x-3 text-xs opacity-60">
+                                      {result.meta.date && <span>{result.meta.date}</span>}
+                                      {result.filters.category?.length ? (
+                                        <span>{result.filters.category.join(' / ')}</span>
+                                      ) : null}
+                                      {result.filters.tag?.length ? (
+                                        <span>{result.filters.tag.map((tag) => `#${tag}`).join(' ')}</span>
+                                      ) : null}
+                                    </span>
+                                    <span
+                                      className="mt-1 line-clamp-2 text-sm [&_mark]:bg-primary/20 [&_mark]:py-px [&_mark]:font-bold [&_mark]:text-primary"
+                                      // biome-ignore lint/security/noDangerouslySetInnerHtml: Safe - Pagefind escapes the excerpt and only adds <mark> around matches
+                                      dangerouslySetInnerHTML={{ __html: result.excerpt }}
+                                    />
+                                    {result.sub_results
+                                      .filter((sub) => sub.url !== result.url)
+                                      .slice(0, MAX_SUB_RESULTS)
+                                      .map((sub) => (
+                                        <span
+                                          key={sub.url}
+                                          className="mt-1 block border-black/10 border-l-2 pl-2 text-xs dark:border-white/15"
+                                        >
+                                          <span className="font-medium">{sub.title}</span>
+                                          <span
+                                            className="line-clamp-1 opacity-70 [&_mark]:bg-primary/20 [&_mark]:text-primary"
+                                            // biome-ignore lint/security/noDangerouslySetInnerHtml: Safe - escaped by Pagefind like the result excerpt
+                                            dangerouslySetInnerHTML={{ __html: sub.excerpt }}
+                                          />
+                                        </span>
+                                      ))}
+                                  </a>
+                                </li>
+                              ))}
+                            </ul>
+                            {loadedResults.length < results.length && (
+                              <button
+                                type="button"
+                                ref={(el) => {
+                                  itemRefs.current[loadedResults.length] = el;
+                                }}
+                                onClick={loadMore}
+                                data-selected={selectedIndex === loadedResults.length || undefined}
+                                className={cn(itemClassName(loadedResults.length), 'mt-2 text-center text-sm')}
+                              >
+                                Load more results
+                              </button>
+                            )}
+                          </>
+                        )}
                       </div>
                     </div>
 
@@ -2,6 +2,7 @@
  * CodeBlockFullscreen Component
  *
  * A fullscreen code viewer dialog with syntax highlighting and copy functionality.
+ * Keeps the block's title, line numbers and line decorations (highlight, diff, focus).
  * Uses the unified modal store for state management.
  */
 
@@ -199,6 +200,11 @@ export default function CodeBlockFullscreen() {
                       <span className="font-medium font-mono text-muted-foreground text-xs uppercase tracking-wider">
                         {data.language}
                       </span>
+                      {data.meta?.title && (
+                        <span className="truncate border-border border-l pl-3 font-mono text-foreground text-xs">
+                          {data.meta.title}
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-1">
                       <button
@@ -225,7 +231,7 @@ export default function CodeBlockFullscreen() {
 
                   {/* Code Content */}
                   <div className="scroll-feather-mask flex-1 overflow-auto">
-                    <pre className={cn(data.preClassName, 'p-4')} style={preStyles}>
+                    <pre className={cn(data.preClassName, 'p-4 [--code-line-bleed:1rem]')} style={preStyles}>
                       {/* biome-ignore lint/security/noDangerouslySetInnerHtml: Safe - codeHTML comes from Shiki syntax highlighter output only */}
                       <code className={data.codeClassName} dangerouslySetInnerHTML={{ __html: data.codeHTML }} />
                     </pre>
@@ -0,0 +1,573 @@
+/**
+ * ImageLightbox Component
+ *
+ * A fullscreen viewer for the images of a post, opened from image-enhancer.ts.
+ * Browses every image with buttons, arrow keys or swipes, with zoom (double-click, ctrl+scroll, pinch) and pan.
+ * The shown image is kept in the URL hash (#img-3) so the link reopens it.
+ * Uses the unified modal store for state management.
+ */
+
+import { Dialog, DialogPortal } from '@components/ui/dialog';
+import { useEscapeKey, useKeyboardShortcut } from '@hooks/useKeyboardShortcut';
+import { cn } from '@lib/utils';
+import { useStore } from '@nanostores/react';
+import { $imageLightboxData, closeModal, openModal } from '@store/modal';
+import { AnimatePresence, motion } from 'motion/react';
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+
+/** Minimum horizontal travel (px) of a swipe to move to the previous/next image */
+const SWIPE_THRESHOLD = 50;
+
+/** Deep link hash of the image at index */
+const IMAGE_HASH_PREFIX = '#img-';
+
+// Zoom state for the lightbox image
+interface ZoomState {
+  scale: number;
+  translateX: number;
+  translateY: number;
+  lastPinchDistance: number;
+  isPinching: boolean;
+  isPanning: boolean;
+  isMouseDragging: boolean;
+  lastPanPoint: { x: number; y: number };
+  /** Start of a one-finger swipe (only tracked when not zoomed) */
+  swipeStart: { x: number; y: number } | null;
+}
+
+function getInitialZoomState(): ZoomState {
+  return {
+    scale: 1,
+    translateX: 0,
+    translateY: 0,
+    lastPinchDistance: 0,
+    isPinching: false,
+    isPanning: false,
+    isMouseDragging: false,
+    lastPanPoint: { x: 0, y: 0 },
+    swipeStart: null,
+  };
+}
+
+/**
+ * Get distance between two touch points
+ */
+function getTouchDistance(touches: TouchList): number {
+  if (touches.length < 2) return 0;
+  const dx = touches[0].clientX - touches[1].clientX;
+  const dy = touches[0].clientY - touches[1].clientY;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Get center point between two touches
+ */
+function getTouchCenter(touches: TouchList): { x: number; y: number } {
+  if (touches.length < 2) {
+    return { x: touches[0].clientX, y: touches[0].clientY };
+  }
+  return {
+    x: (touches[0].clientX + touches[1].clientX) / 2,
+    y: (touches[0].clientY + touches[1].clientY) / 2,
+  };
+}
+
+/**
+ * Set or clear the #img-N hash without adding history entries or scrolling
+ */
+function replaceImageHash(index: number | null): void {
+  const hash = index === null ? '' : `${IMAGE_HASH_PREFIX}${index + 1}`;
+  if (index === null && !location.hash.startsWith(IMAGE_HASH_PREFIX)) return;
+  history.replaceState(history.state, '', `${location.pathname}${location.search}${hash}`);
+}
+
+/**
+ * Zoom, pan and swipe gestures on the lightbox image
+ * Transforms are applied to the image directly, so gestures don't re-render the component
+ */
+function useImageZoom(
+  containerRef: RefObject<HTMLDivElement | null>,
+  imgRef: RefObject<HTMLImageElement | null>,
+  enabled: boolean,
+  onSwipe: (direction: 1 | -1) => void,
+) {
+  const zoomRef = useRef<ZoomState>(getInitialZoomState());
+  const onSwipeRef = useRef(onSwipe);
+  onSwipeRef.current = onSwipe;
+
+  const resetZoom = useCallback(() => {
+    zoomRef.current = getInitialZoomState();
+    if (imgRef.current) {
+      imgRef.current.style.transform = '';
+      imgRef.current.style.cursor = 'zoom-in';
+    }
+  }, [imgRef]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    /**
+     * Clamp translation to keep image within reasonable bounds
+     */
+    const clampTranslation = (img: HTMLImageElement) => {
+      const state = zoomRef.current;
+      if (state.scale <= 1) return;
+
+      const rect = img.getBoundingClientRect();
+      // Allow panning up to half the image size beyond viewport
+      const maxX = Math.max(0, (rect.width - window.innerWidth) / 2 + window.innerWidth * 0.3);
+      const maxY = Math.max(0, (rect.height - window.innerHeight) / 2 + window.innerHeight * 0.3);
+
+      state.translateX = Math.max(-maxX, Math.min(maxX, state.translateX));
+      state.translateY = Math.max(-maxY, Math.min(maxY, state.translateY));
+    };
+
+    const applyZoomTransform = (img: HTMLImageElement) => {
+      clampTranslation(img);
+      const { scale, translateX, translateY, isMouseDragging } = zoomRef.current;
+      img.style.transform = `translate(${translateX}px, ${translateY}px) scale(${scale})`;
+      img.style.cursor = scale > 1 ? (isMouseDragging ? 'grabbing' : 'grab') : 'zoom-in';
+    };
+
+    /**
+     * Zoom to newScale keeping the point (x, y) in place
+     */
+    const zoomAt = (img: HTMLImageElement, newScale: number, x: number, y: number) => {
+      const state = zoomRef.current;
+      const rect = img.getBoundingClientRect();
+      const imgCenterX = rect.left + rect.width / 2;
+      const imgCenterY = rect.top + rect.height / 2;
+
+      const scaleRatio = newScale / state.scale;
+      state.translateX = x - (x - imgCenterX - state.translateX) * scaleRatio - imgCenterX;
+      state.translateY = y - (y - imgCenterY - state.translateY) * scaleRatio - imgCenterY;
+      state.scale = newScale;
+      applyZoomTransform(img);
+    };
+
+    const handleTouchStart = (e: TouchEvent) => {
+      const state = zoomRef.current;
+      state.swipeStart =
+        e.touches.length === 1 && state.scale <= 1 ? { x: e.touches[0].clientX, y: e.touches[0].clientY } : null;
+
+      if (e.touches.length === 2) {
+        e.preventDefault();
+        state.isPinching = true;
+        state.lastPinchDistance = getTouchDistance(e.touches);
+      } else if (e.touches.length === 1 && state.scale > 1) {
+        // Start panning when zoomed in
+        state.isPanning = true;
+        state.lastPanPoint = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+      }
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      const state = zoomRef.current;
+      const img = imgRef.current;
+      if (!img) return;
+
+      if (e.touches.length === 2 && state.isPinching) {
+        e.preventDefault();
+        const currentDistance = getTouchDistance(e.touches);
+        const newScale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, state.scale * (currentDistance / state.lastPinchDistance)));
+
+        // Zoom towards pinch center
+        if (newScale !== state.scale) {
+          const center = getTouchCenter(e.touches);
+          zoomAt(img, newScale, center.x, center.y);
+        }
+        state.lastPinchDistance = currentDistance;
+      } else if (e.touches.length === 1 && state.isPanning && state.scale > 1) {
+        e.preventDefault();
+        state.translateX += e.touches[0].clientX - state.lastPanPoint.x;
+        state.translateY += e.touches[0].clientY - state.lastPanPoint.y;
+        state.lastPanPoint = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+        applyZoomTransform(img);
+      }
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      const state = zoomRef.current;
+
+      // Horizontal one-finger swipe moves to the previous/next image
+      if (state.swipeStart && e.changedTouches.length === 1 && e.touches.length === 0) {
+        const deltaX = e.changedTouches[0].clientX - state.swipeStart.x;
+        const deltaY = e.changedTouches[0].clientY - state.swipeStart.y;
+        if (Math.abs(deltaX) > SWIPE_THRESHOLD && Math.abs(deltaX) > Math.abs(deltaY)) {
+          onSwipeRef.current(deltaX < 0 ? 1 : -1);
+        }
+      }
+      state.swipeStart = null;
+
+      if (e.touches.length < 2) {
+        state.isPinching = false;
+      }
+      if (e.touches.length === 0) {
+        state.isPanning = false;
+        if (imgRef.current && state.scale > 1) {
+          imgRef.current.style.cursor = 'grab';
+        }
+      }
+
+      // Reset if scale is close to 1
+      if (state.scale < 1.05) {
+        resetZoom();
+      }
+    };
+
+    // Ctrl/cmd + scroll, or trackpad pinch (fires wheel events with ctrlKey)
+    const handleWheel = (e: WheelEvent) => {
+      const img = imgRef.current;
+      if ((!e.ctrlKey && !e.metaKey) || !img) return;
+      e.preventDefault();
+
+      const state = zoomRef.current;
+      const newScale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, state.scale * (e.deltaY > 0 ? 0.9 : 1.1)));
+      if (newScale !== state.scale) {
+        zoomAt(img, newScale, e.clientX, e.clientY);
+      }
+
+      // Reset if scale is close to 1
+      if (state.scale < 1.05) {
+        resetZoom();
+      }
+    };
+
+    // Double click toggles 2x zoom at the click point
+    const handleDoubleClick = (e: MouseEvent) => {
+      const img = imgRef.current;
+      if (!img || e.target !== img) return;
+      e.preventDefault();
+
+      if (zoomRef.current.scale > 1) {
+        resetZoom();
+      } else {
+        zoomAt(img, 2, e.clientX, e.clientY);
+      }
+    };
+
+    // Mouse drag pans when zoomed
+    const handleMouseDown = (e: MouseEvent) => {
+      const state = zoomRef.current;
+      if (e.target !== imgRef.current || state.scale <= 1) return;
+      e.preventDefault();
+      state.isMouseDragging = true;
+      state.lastPanPoint = { x: e.clientX, y: e.clientY };
+      if (imgRef.current) imgRef.current.style.cursor = 'grabbing';
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const state = zoomRef.current;
+      const img = imgRef.current;
+      if (!state.isMouseDragging || state.scale <= 1 || !img) return;
+
+      state.translateX += e.clientX - state.lastPanPoint.x;
+      state.translateY += e.clientY - state.lastPanPoint.y;
+      state.lastPanPoint = { x: e.clientX, y: e.clientY };
+      applyZoomTransform(img);
+    };
+
+    const handleMouseUp = () => {
+      const state = zoomRef.current;
+      if (!state.isMouseDragging) return;
+      state.isMouseDragging = false;
+      if (imgRef.current && state.scale > 1) {
+        imgRef.current.style.cursor = 'grab';
+      }
+    };
+
+    // Non-passive listeners, so pinch and ctrl+scroll don't zoom the page
+    container.addEventListener('touchstart', handleTouchStart, { passive: false });
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    container.addEventListener('touchcancel', handleTouchEnd);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('dblclick', handleDoubleClick);
+    container.addEventListener('mousedown', handleMouseDown);
+    container.addEventListener('mousemove', handleMouseMove);
+    container.addEventListener('mouseup', handleMouseUp);
+    container.addEventListener('mouseleave', handleMouseUp);
+
+    return () => {
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+      container.removeEventListener('touchcancel', handleTouchEnd);
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('dblclick', handleDoubleClick);
+      container.removeEventListener('mousedown', handleMouseDown);
+      container.removeEventListener('mousemove', handleMouseMove);
+      container.removeEventListener('mouseup', handleMouseUp);
+      container.removeEventListener('mouseleave', handleMouseUp);
+      zoomRef.current = getInitialZoomState();
+    };
+  }, [containerRef, imgRef, enabled, resetZoom]);
+
+  return { zoomRef, resetZoom };
+}
+
+// Icons
+function ChevronIcon({ direction, className }: { direction: 'left' | 'right'; className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <title>{direction === 'left' ? 'Previous' : 'Next'}</title>
+      <polyline points={direction === 'left' ? '15 18 9 12 15 6' : '9 18 15 12 9 6'} />
+    </svg>
+  );
+}
+
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <title>Download</title>
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="7 10 12 15 17 10" />
+      <line x1="12" y1="15" x2="12" y2="3" />
+    </svg>
+  );
+}
+
+function ExternalIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <title>Open original</title>
+      <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" />
+      <polyline points="15 3 21 3 21 9" />
+      <line x1="10" y1="14" x2="21" y2="3" />
+    </svg>
+  );
+}
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className={className}>
+      <title>Close</title>
+      <path d="M19 6.41L17.59 5L12 10.59L6.41 5L5 6.41L10.59 12L5 17.59L6.41 19L12 13.41L17.59 19L19 17.59L13.41 12L19 6.41Z" />
+    </svg>
+  );
+}
+
+const toolbarButtonClass =
+  'flex h-10 w-10 items-center justify-center rounded-full text-white/80 transition-colors hover:bg-white/15 hover:text-white';
+
+const navButtonClass =
+  'absolute top-1/2 z-10 flex h-12 w-12 -translate-y-1/2 items-center justify-center rounded-full bg-white/10 text-white/80 transition-colors hover:bg-white/20 hover:text-white';
+
+export default function ImageLightbox() {
+  const data = useStore($imageLightboxData);
+  const isOpen = data !== null;
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  const total = data?.images.length ?? 0;
+  const index = data?.index ?? 0;
+  const image = data?.images[index];
+  const hasMultiple = total > 1;
+
+  const handleClose = useCallback(() => {
+    closeModal();
+  }, []);
+
+  // Move to the previous/next image, wrapping around
+  const go = useCallback(
+    (direction: 1 | -1) => {
+      if (!data || data.images.length < 2) return;
+      openModal('imageLightbox', {
+        ...data,
+        index: (data.index + direction + data.images.length) % data.images.length,
+      });
+    },
+    [data],
+  );
+
+  const { zoomRef, resetZoom } = useImageZoom(containerRef, imgRef, isOpen, go);
+
+  // Handle escape and arrow keys
+  useEscapeKey(() => {
+    if (isOpen) handleClose();
+  }, isOpen);
+  useKeyboardShortcut({ key: 'ArrowLeft', handler: () => go(-1), enabled: isOpen });
+  useKeyboardShortcut({ key: 'ArrowRight', handler: () => go(1), enabled: isOpen });
+
+  // Keep #img-N in sync with the shown image, cleared on close
+  useEffect(() => {
+    replaceImageHash(isOpen ? index : null);
+  }, [isOpen, index]);
+
+  // New image starts unzoomed, neighbours are preloaded for instant navigation
+  useEffect(() => {
+    if (!data) return;
+    resetZoom();
+    if (data.images.length < 2) return;
+    for (const offset of [1, -1]) {
+      const neighbour = data.images[(data.index + offset + data.images.length) % data.images.length];
+      new Image().src = neighbour.src;
+    }
+  }, [data, resetZoom]);
+
+  // Close on page navigation
+  useEffect(() => {
+    const handleBeforePreparation = () => {
+      if (isOpen) closeModal();
+    };
+
+    document.addEventListener('astro:before-preparation', handleBeforePreparation);
+    return () => {
+      document.removeEventListener('astro:before-preparation', handleBeforePreparation);
+    };
+  }, [isOpen]);
+
+  // Close on background click, but not when zoomed (clicks end pans)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isOpen || !container) return;
+
+    const handleBackgroundClick = (e: MouseEvent) => {
+      if (zoomRef.current.scale > 1) return;
+      if (e.target === container) handleClose();
+    };
+
+    container.addEventListener('click', handleBackgroundClick);
+    return () => {
+      container.removeEventListener('click', handleBackgroundClick);
+    };
+  }, [isOpen, zoomRef, handleClose]);
+
+  if (!data || !image) return null;
+
+  const fileName = decodeURIComponent(image.src.split(/[?#]/)[0].split('/').pop() || 'image');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogPortal forceMount>
+        <AnimatePresence>
+          {isOpen && (
+            <>
+              {/* Overlay */}
+              <motion.div
+                className="fixed inset-0 z-40 bg-black/90 backdrop-blur-sm"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.2 }}
+              />
+
+              {/* Dialog */}
+              <motion.div
+                role="dialog"
+                aria-modal="true"
+                aria-label="View image fullscreen"
+                className="fixed inset-0 z-50 flex flex-col text-white"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                {/* Toolbar */}
+                <div className="flex shrink-0 items-center justify-between px-4 py-3">
+                  <span className="font-mono text-sm text-white/70 tabular-nums" aria-live="polite">
+                    {hasMultiple && `${index + 1} / ${total}`}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <a href={image.src} download={fileName} className={toolbarButtonClass} aria-label="Download">
+                      <DownloadIcon className="h-5 w-5" />
+                    </a>
+                    <a
+                      href={image.src}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={toolbarButtonClass}
+                      aria-label="Open original"
+                    >
+                      <ExternalIcon className="h-5 w-5" />
+                    </a>
+                    <button type="button" onClick={handleClose} className={toolbarButtonClass} aria-label="Close">
+                      <CloseIcon className="h-6 w-6" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Image, gestures are handled by useImageZoom */}
+                <div
+                  ref={containerRef}
+                  className="relative flex min-h-0 flex-1 touch-none select-none items-center justify-center px-4 md:px-20"
+                >
+                  {hasMultiple && (
+                    <button
+                      type="button"
+                      onClick={() => go(-1)}
+                      className={cn(navButtonClass, 'left-2 md:left-4')}
+                      aria-label="Previous image"
+                    >
+                      <ChevronIcon direction="left" className="h-6 w-6" />
+                    </button>
+                  )}
+                  <img
+                    key={image.src}
+                    ref={imgRef}
+                    src={image.src}
+                    alt={image.alt}
+                    onLoad={() => setLoadedSrc(image.src)}
+                    draggable={false}
+                    className={cn(
+                      'max-h-full max-w-full cursor-zoom-in rounded-lg object-contain shadow-2xl transition-opacity duration-200 will-change-transform',
+                      loadedSrc === image.src ? 'opacity-100' : 'opacity-0',
+                    )}
+                  />
+                  {hasMultiple && (
+                    <button
+                      type="button"
+                      onClick={() => go(1)}
+                      className={cn(navButtonClass, 'right-2 md:right-4')}
+                      aria-label="Next image"
+                    >
+                      <ChevronIcon direction="right" className="h-6 w-6" />
+                    </button>
+                  )}
+                </div>
+
+                {/* Caption and gesture hint */}
+                <div className="flex shrink-0 flex-col items-center gap-1 px-4 py-3 text-center">
+                  {image.caption && <p className="text-sm text-white/85">{image.caption}</p>}
+                  <p className="text-white/50 text-xs">Double-click, pinch or Ctrl+scroll to zoom</p>
+                </div>
+              </motion.div>
+            </>
+          )}
+        </AnimatePresence>
+      </DialogPortal>
+    </Dialog>
+  );
+}
@@ -43,7 +43,7 @@ export default function PostFooterLists({ allPosts, relatedPosts, leftCount, rig
           {leftPosts.map((post, index) => (
             <a
               key={post.slug}
-              href={`/post/${post.link ?? post.slug}`}
+              href={post.href}
               className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
             >
               <span className="shrink-0 font-mono text-foreground/30">{index + 1}</span>
@@ -64,7 +64,7 @@ export default function PostFooterLists({ allPosts, relatedPosts, leftCount, rig
             {rightPosts.map((post, index) => (
               <a
                 key={post.slug}
-                href={`/post/${post.link ?? post.slug}`}
+                href={post.href}
                 className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
               >
                 <span className="shrink-0 font-mono text-foreground/30">{index + (hasRelatedPosts ? 1 : leftCount + 1)}</span>
@@ -4,6 +4,8 @@ import { useMemo } from 'react';
 export interface RandomPostItem {
   slug: string;
   link?: string;
+  /** Post URL, including locale prefix */
+  href: string;
   title: string;
   categoryName?: string;
 }
@@ -28,7 +30,7 @@ export default function RandomPostList({ postsPool, count }: Props) {
         {posts.map((post, index) => (
           <a
             key={post.slug}
-            href={`/post/${post.link ?? post.slug}`}
+            href={post.href}
             className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
           >
             <span className="shrink-0 font-mono text-foreground/30">{index + 1}</span>
@@ -34,7 +34,7 @@ export default function RelatedPostList({ posts, fallbackPool, fallbackCount, st
         {displayPosts.map((post, index) => (
           <a
             key={post.slug}
-            href={`/post/${post.link ?? post.slug}`}
+            href={post.href}
             className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
           >
             <span className="shrink-0 font-mono text-foreground/30">{index + (hasRelatedPosts ? 1 : startIndex)}</span>
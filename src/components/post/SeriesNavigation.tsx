@@ -10,15 +10,19 @@ import type { BlogPost } from '@/types/blog';
 interface SeriesNavigationProps {
   prevPost?: BlogPost | null;
   nextPost?: BlogPost | null;
+  /** Series in reading order (seriesOrder), otherwise posts are newest first */
+  ordered?: boolean;
   className?: string;
 }
 
-export function SeriesNavigation({ prevPost, nextPost, className }: SeriesNavigationProps) {
+export function SeriesNavigation({ prevPost, nextPost, ordered = false, className }: SeriesNavigationProps) {
   if (!prevPost && !nextPost) {
     return null;
   }
 
   const scrollBehavior: ScrollBehavior = 'smooth';
+  const prevLabel = ordered ? 'Previous part' : 'Newer post';
+  const nextLabel = ordered ? 'Next part' : 'Older post';
 
   return (
     <div className={cn('mt-4 flex flex-col gap-3 border-border border-t pt-4 md:mt-0 md:pt-2', className)}>
@@ -33,7 +37,8 @@ export function SeriesNavigation({ prevPost, nextPost, className }: SeriesNaviga
               'text-muted-foreground hover:bg-accent hover:text-primary',
               'min-w-0 max-w-[45%] flex-1',
             )}
-            title={prevPost.data.title}
+            title={`${prevLabel}: ${prevPost.data.title}`}
+            aria-label={`${prevLabel}: ${prevPost.data.title}`}
             suppressHydrationWarning
           >
             <RiArrowLeftSLine className="h-4 w-4 shrink-0" />
@@ -52,7 +57,8 @@ export function SeriesNavigation({ prevPost, nextPost, className }: SeriesNaviga
               'text-muted-foreground hover:bg-accent hover:text-primary',
               'min-w-0 max-w-[45%] flex-1 justify-end text-right',
             )}
-            title={nextPost.data.title}
+            title={`${nextLabel}: ${nextPost.data.title}`}
+            aria-label={`${nextLabel}: ${nextPost.data.title}`}
             suppressHydrationWarning
           >
             <span className="truncate text-xs">{nextPost.data.title}</span>
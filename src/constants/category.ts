@@ -1,4 +1,4 @@
-import yamlConfig from '../../config/site.yaml';
+import yamlConfig from 'virtual:site-config';
 
 // { '随笔': 'life' }
 export const categoryMap: { [name: string]: string } = yamlConfig.categoryMap || {};
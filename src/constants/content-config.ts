@@ -1,7 +1,7 @@
-// Import YAML config directly - processed by @rollup/plugin-yaml
+// Merged site config (site.yaml + site.local.yaml + JEET_* env) - see src/lib/config/loader.ts
 
+import yamlConfig from 'virtual:site-config';
 import type { ContentConfig } from '@lib/config/types';
-import yamlConfig from '../../config/site.yaml';
 
 // Re-export type for backwards compatibility
 export type { ContentConfig };
@@ -18,4 +18,5 @@ export const defaultContentConfig: ContentConfig = yamlConfig.content ?? {
   enableOGPreview: true,
   previewCacheTime: 3600, // 1 hour
   lazyLoadEmbeds: true,
+  codeCollapseLines: 30,
 };
@@ -0,0 +1,29 @@
+// Merged site config (site.yaml + site.local.yaml + JEET_* env) - see src/lib/config/loader.ts
+
+import yamlConfig from 'virtual:site-config';
+import type { FeedConfig } from '@lib/config/types';
+
+const DEFAULT_FEED_CONFIG: FeedConfig = {
+  limit: 20,
+  content: 'full',
+  includeCover: true,
+};
+
+/**
+ * Merge feed config with defaults and validate it at build time
+ */
+function normalizeFeedConfig(config: Partial<FeedConfig> | undefined): FeedConfig {
+  const merged = { ...DEFAULT_FEED_CONFIG, ...config };
+
+  if (!Number.isInteger(merged.limit) || merged.limit < 0) {
+    throw new Error(`Feed configuration error: "limit" must be a non-negative integer, got "${merged.limit}".`);
+  }
+
+  if (merged.content !== 'full' && merged.content !== 'summary') {
+    throw new Error(`Feed configuration error: "content" must be "full" or "summary", got "${merged.content}".`);
+  }
+
+  return merged;
+}
+
+export const feedConfig: FeedConfig = normalizeFeedConfig(yamlConfig.feed);
@@ -1,7 +1,7 @@
-// Import YAML config directly - processed by @rollup/plugin-yaml
+// Merged site config (site.yaml + site.local.yaml + JEET_* env) - see src/lib/config/loader.ts
 
+import yamlConfig from 'virtual:site-config';
 import type { FriendLink, FriendsIntro } from '@lib/config/types';
-import yamlConfig from '../../config/site.yaml';
 
 // Re-export type for backwards compatibility
 export type { FriendLink };
@@ -0,0 +1,67 @@
+// Merged site config (site.yaml + site.local.yaml + JEET_* env) - see src/lib/config/loader.ts
+
+import yamlConfig from 'virtual:site-config';
+import type { I18nConfig, LocaleConfig } from '@lib/config/types';
+import { isReservedSlug } from './router';
+
+const DEFAULT_I18N_CONFIG: I18nConfig = {
+  defaultLocale: 'en',
+  locales: [{ code: 'en', label: 'English', htmlLang: 'en' }],
+};
+
+/**
+ * Normalize i18n config and validate locale codes at build time
+ * Locale codes become URL prefixes (/zh/post/...), so they must be URL-safe and unique
+ */
+function normalizeI18nConfig(config: I18nConfig | undefined): I18nConfig {
+  if (!config?.locales?.length) return DEFAULT_I18N_CONFIG;
+
+  const codeSet = new Set<string>();
+  const locales: LocaleConfig[] = [];
+
+  for (const [index, locale] of config.locales.entries()) {
+    const code = typeof locale?.code === 'string' ? locale.code.trim() : '';
+
+    if (!code) {
+      throw new Error(`i18n configuration error: Locale at index ${index} is missing a "code" field.`);
+    }
+
+    if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(code)) {
+      throw new Error(
+        `i18n configuration error: Invalid locale code "${code}". Use a language tag such as "en", "zh" or "zh-tw".`,
+      );
+    }
+
+    if (isReservedSlug(code)) {
+      throw new Error(`i18n configuration error: Locale code "${code}" conflicts with a reserved route.`);
+    }
+
+    if (codeSet.has(code)) {
+      throw new Error(`i18n configuration error: Duplicate locale code "${code}".`);
+    }
+    codeSet.add(code);
+
+    locales.push({ ...locale, code, label: locale.label ?? code, htmlLang: locale.htmlLang ?? code });
+  }
+
+  const defaultLocale = config.defaultLocale ?? locales[0].code;
+  if (!codeSet.has(defaultLocale)) {
+    throw new Error(
+      `i18n configuration error: defaultLocale "${defaultLocale}" is not listed in i18n.locales. ` +
+        `Available locales: ${Array.from(codeSet).join(', ')}.`,
+    );
+  }
+
+  return { defaultLocale, locales };
+}
+
+export const i18nConfig: I18nConfig = normalizeI18nConfig(yamlConfig.i18n);
+
+/** Locale of posts without a `lang` frontmatter field */
+export const defaultLocale = i18nConfig.defaultLocale;
+
+/** All configured locales, in config order */
+export const locales: LocaleConfig[] = i18nConfig.locales;
+
+/** Locale codes, for fast membership checks */
+export const localeCodes = new Set(locales.map((locale) => locale.code));
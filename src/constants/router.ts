@@ -1,7 +1,7 @@
-// Import YAML config directly - processed by @rollup/plugin-yaml
+// Merged site config (site.yaml + site.local.yaml + JEET_* env) - see src/lib/config/loader.ts
 
+import yamlConfig from 'virtual:site-config';
 import type { RouterItem } from '@lib/config/types';
-import yamlConfig from '../../config/site.yaml';
 
 export type Router = RouterItem;
 
@@ -14,6 +14,7 @@ export enum Routes {
   Friends = '/friends',
   Post = '/post',
   Archives = '/archives',
+  Search = '/search',
 }
 
 // Reserved routes that cannot be used as series slugs
@@ -27,9 +28,12 @@ export const RESERVED_ROUTES = new Set([
   'post',
   'posts',
   'archives',
+  'search',
   '404',
   // Special files
   'rss.xml',
+  'atom.xml',
+  'feed.json',
   'sitemap.xml',
   'robots.txt',
   'favicon.ico',
@@ -37,6 +41,8 @@ export const RESERVED_ROUTES = new Set([
   '_astro',
   '@fs',
   'api',
+  // Generated Open Graph images
+  'og',
 ]);
 
 /**
@@ -1,7 +1,7 @@
-// Import YAML config directly - processed by @rollup/plugin-yaml
+// Merged site config (site.yaml + site.local.yaml + JEET_* env) - see src/lib/config/loader.ts
 
+import yamlConfig from 'virtual:site-config';
 import type { CommentConfig, FeaturedSeriesItem } from '@lib/config/types';
-import yamlConfig from '../../config/site.yaml';
 import { isReservedSlug, RESERVED_ROUTES } from './router';
 
 type SiteConfig = {
@@ -88,8 +88,9 @@ function normalizeFeaturedSeries(config: unknown): FeaturedSeriesItem[] {
       );
     }
 
-    // Add default slug for legacy configs
-    const slug = item.slug || yamlConfig.categoryMap?.[item.categoryName] || 'series';
+    // Add default slug for legacy configs (categoryName may be a path like 'notes/weekly')
+    const leafName = item.categoryName.split('/').pop()?.trim() ?? '';
+    const slug = item.slug || yamlConfig.categoryMap?.[leafName] || 'series';
     validatedItems.push({ ...item, slug });
   }
 
@@ -139,10 +140,14 @@ function normalizeFeaturedSeries(config: unknown): FeaturedSeriesItem[] {
     slugSet.add(normalizedSlug);
     item.slug = normalizedSlug;
 
-    // Validate categoryName exists in categoryMap
-    if (yamlConfig.categoryMap && !yamlConfig.categoryMap[item.categoryName]) {
+    // Validate every level of categoryName exists in categoryMap
+    const missingNames = item.categoryName
+      .split('/')
+      .map((name) => name.trim())
+      .filter((name) => name && yamlConfig.categoryMap && !yamlConfig.categoryMap[name]);
+    if (missingNames.length) {
       console.warn(
-        `[Warning] Featured series "${item.slug}": Category "${item.categoryName}" not found in categoryMap. ` +
+        `[Warning] Featured series "${item.slug}": Category "${missingNames.join('", "')}" not found in categoryMap. ` +
           `Consider adding it to config/site.yaml for proper URL mapping.`,
       );
     }
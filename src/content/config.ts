@@ -19,10 +19,24 @@ const blogCollection = defineCollection({
       .optional(),
     sticky: z.boolean().optional(),
     draft: z.boolean().optional(),
+    // Scheduled publishing time, the post is hidden from production builds until then (defaults to date)
+    publishAt: z.date().optional(),
     // Table of contents numbering control
     tocNumbering: z.boolean().optional().default(true),
     // Exclude from AI summary generation
     excludeFromSummary: z.boolean().optional(),
+    // Post language (locale code from i18n.locales), defaults to i18n.defaultLocale
+    lang: z.string().optional(),
+    // Slug (link) of the post this one translates
+    translationOf: z.string().optional(),
+    // Series name, groups posts explicitly instead of by deepest category
+    series: z.string().optional(),
+    // Position within the series (1-based), takes precedence over date order
+    seriesOrder: z.number().int().positive().optional(),
+    // Bibliography for [@key] citations (.bib or CSL-JSON .json), relative to the post file
+    bibliography: z.string().optional(),
+    // Show camera, lens and exposure (EXIF) under local images, for photography posts
+    exif: z.boolean().optional(),
   }) satisfies z.ZodType<BlogSchema>,
 });
 
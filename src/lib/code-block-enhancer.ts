@@ -10,6 +10,25 @@ function escapeHtml(text: string): string {
   return text.replace(/[&<>"']/g, '');
 }
 
+/**
+ * Meta string options applied at build time (see src/lib/markdown/shiki-code-meta.ts)
+ */
+export interface CodeBlockMeta {
+  /** File title from title="..." */
+  title?: string;
+  showLineNumbers: boolean;
+  startLine: number;
+  /** 1-based lines highlighted via {3-5}, [!code highlight] or [!code error/warning] */
+  highlightedLines: number[];
+  /** Lines added/removed via [!code ++] / [!code --] */
+  addedLines: number[];
+  removedLines: number[];
+  /** Lines focused via [!code focus] */
+  focusedLines: number[];
+  /** Runnable via ```ts playground``` */
+  playground: boolean;
+}
+
 export interface CodeBlockInfo {
   element: HTMLElement;
   language: string;
@@ -18,6 +37,7 @@ export interface CodeBlockInfo {
   preClassName: string;
   preStyle: string;
   codeClassName: string;
+  meta: CodeBlockMeta;
 }
 
 /**
@@ -55,12 +75,40 @@ export function extractLanguage(preElement: HTMLElement): string {
 
 /**
  * Extract code content (plain text)
+ * Lines removed by [!code --] are left out, so the copied code is the result of the diff
  */
 export function extractCode(preElement: HTMLElement): string {
   const codeElement = preElement.querySelector('code');
+  if (codeElement && preElement.classList.contains('has-diff')) {
+    return Array.from(codeElement.querySelectorAll('.line'))
+      .filter((line) => !line.classList.contains('remove'))
+      .map((line) => line.textContent)
+      .join('\n');
+  }
   return codeElement?.textContent || '';
 }
 
+/**
+ * Extract meta string options and line decorations
+ */
+export function extractCodeMeta(preElement: HTMLElement): CodeBlockMeta {
+  const lines = Array.from(preElement.querySelectorAll('code > .line'));
+  const linesWith = (className: string) =>
+    lines.flatMap((line, index) => (line.classList.contains(className) ? [index + 1] : []));
+  const counterReset = preElement.style.counterReset.match(/line (-?\d+)/);
+
+  return {
+    title: preElement.dataset.title,
+    showLineNumbers: preElement.classList.contains('line-numbers'),
+    startLine: counterReset ? Number(counterReset[1]) + 1 : 1,
+    highlightedLines: linesWith('highlighted'),
+    addedLines: linesWith('add'),
+    removedLines: linesWith('remove'),
+    focusedLines: linesWith('focused'),
+    playground: preElement.dataset.playground !== undefined,
+  };
+}
+
 /**
  * Extract code HTML (preserve syntax highlighting)
  */
@@ -94,15 +142,36 @@ export function extractCodeClassName(preElement: HTMLElement): string {
 export interface ToolbarOptions {
   enableCopy?: boolean;
   enableFullscreen?: boolean;
+  /** Copy button label (defaults to 'Copy code') */
+  copyLabel?: string;
+  /** File title shown next to the language */
+  title?: string;
+  /** Show the run button (playground blocks) */
+  enableRun?: boolean;
 }
 
 /**
  * Create toolbar HTML
  */
 export function createToolbar(language: string, options: ToolbarOptions = {}): string {
-  const { enableCopy = true, enableFullscreen = true } = options;
+  const { enableCopy = true, enableFullscreen = true, copyLabel = 'Copy code', title, enableRun = false } = options;
   // Escape language name to prevent XSS
   const safeLanguage = escapeHtml(language);
+  const safeCopyLabel = escapeHtml(copyLabel);
+  const titleLabel = title ? `<span class="code-block-title" title="${escapeHtml(title)}">${escapeHtml(title)}</span>` : '';
+
+  const runBtn = enableRun
+    ? `
+        <button
+          class="code-block-button code-block-run"
+          aria-label="Run code"
+          title="Run code"
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M8 5.14v13.72a1 1 0 0 0 1.52.85l10.96-6.86a1 1 0 0 0 0-1.7L9.52 4.29A1 1 0 0 0 8 5.14"></path>
+          </svg>
+        </button>`
+    : '';
 
   const fullscreenBtn = enableFullscreen
     ? `
@@ -121,8 +190,8 @@ export function createToolbar(language: string, options: ToolbarOptions = {}): s
     ? `
         <button
           class="code-block-button code-block-copy"
-          aria-label="Copy code"
-          title="Copy code"
+          aria-label="${safeCopyLabel}"
+          title="${safeCopyLabel}"
         >
           <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 448 512" fill="currentColor">
             <path d="M192 0c-35.3 0-64 28.7-64 64l0 256c0 35.3 28.7 64 64 64l192 0c35.3 0 64-28.7 64-64l0-200.6c0-17.4-7.1-34.1-19.7-46.2L370.6 17.8C358.7 6.4 342.8 0 326.3 0L192 0zM64 128c-35.3 0-64 28.7-64 64L0 448c0 35.3 28.7 64 64 64l192 0c35.3 0 64-28.7 64-64l0-16-64 0 0 16-192 0 0-256 16 0 0-64-16 0z"/>
@@ -137,8 +206,10 @@ export function createToolbar(language: string, options: ToolbarOptions = {}): s
         <span class="code-block-dot yellow"></span>
         <span class="code-block-dot green"></span>
         <span class="code-block-language">${safeLanguage}</span>
+        ${titleLabel}
       </div>
       <div class="code-block-actions">
+        ${runBtn}
         ${fullscreenBtn}
         ${copyBtn}
       </div>
@@ -200,6 +271,7 @@ export function enhanceCodeBlock(preElement: HTMLElement, options: ToolbarOption
   const preClassName = extractPreClassName(preElement);
   const preStyle = extractPreStyle(preElement);
   const codeClassName = extractCodeClassName(preElement);
+  const meta = extractCodeMeta(preElement);
 
   // Create wrapper container
   const wrapper = document.createElement('div');
@@ -210,7 +282,10 @@ export function enhanceCodeBlock(preElement: HTMLElement, options: ToolbarOption
   wrapper.appendChild(preElement);
 
   // Insert toolbar before pre (as sibling node)
-  preElement.insertAdjacentHTML('beforebegin', createToolbar(language, options));
+  preElement.insertAdjacentHTML(
+    'beforebegin',
+    createToolbar(language, { title: meta.title, enableRun: meta.playground, ...options }),
+  );
 
   // Mark as enhanced
   preElement.dataset.enhanced = 'true';
@@ -224,21 +299,57 @@ export function enhanceCodeBlock(preElement: HTMLElement, options: ToolbarOption
     preClassName,
     preStyle,
     codeClassName,
+    meta,
   };
 }
 
 export interface EnhanceOptions {
   onCopy?: (code: string) => void;
   onFullscreen?: (info: CodeBlockInfo) => void;
+  /** Run button of playground blocks */
+  onRun?: (info: CodeBlockInfo) => void;
   enableCopy?: boolean;
   enableFullscreen?: boolean;
+  /** Collapse blocks longer than this many lines (0 = never) */
+  collapseLines?: number;
+}
+
+/**
+ * Collapse a long code block behind an expand button
+ */
+export function collapseCodeBlock(preElement: HTMLElement, maxLines: number): void {
+  const wrapper = preElement.parentElement;
+  const lineCount = preElement.querySelectorAll('code > .line').length || extractCode(preElement).split('\n').length;
+  if (!wrapper || lineCount <= maxLines) return;
+
+  wrapper.classList.add('collapsed');
+  wrapper.style.setProperty('--collapse-lines', String(maxLines));
+
+  const expandLabel = `Expand (${lineCount} lines)`;
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'code-block-expand';
+  button.textContent = expandLabel;
+  button.setAttribute('aria-expanded', 'false');
+  wrapper.appendChild(button);
+
+  button.addEventListener('click', () => {
+    const collapsed = wrapper.classList.toggle('collapsed');
+    button.textContent = collapsed ? expandLabel : 'Collapse';
+    button.setAttribute('aria-expanded', String(!collapsed));
+
+    // Collapsing a long block can leave the reader far below it
+    if (collapsed && wrapper.getBoundingClientRect().top < 0) {
+      wrapper.scrollIntoView({ block: 'start' });
+    }
+  });
 }
 
 /**
  * Enhance all code blocks
  */
 export function enhanceAllCodeBlocks(container: Element, options: EnhanceOptions = {}): void {
-  const { enableCopy = true, enableFullscreen = true } = options;
+  const { enableCopy = true, enableFullscreen = true, collapseLines = 0 } = options;
   const codeBlocks = container.querySelectorAll('pre');
 
   codeBlocks.forEach((pre) => {
@@ -247,6 +358,10 @@ export function enhanceAllCodeBlocks(container: Element, options: EnhanceOptions
 
     if (!info) return;
 
+    if (collapseLines > 0) {
+      collapseCodeBlock(preElement, collapseLines);
+    }
+
     // Bind copy button (button is in wrapper, not inside pre)
     if (enableCopy) {
       const copyBtn = preElement.parentElement?.querySelector('.code-block-copy');
@@ -287,6 +402,12 @@ export function enhanceAllCodeBlocks(container: Element, options: EnhanceOptions
       }
     }
 
+    // Bind run button (playground blocks only)
+    const runBtn = preElement.parentElement?.querySelector('.code-block-run');
+    runBtn?.addEventListener('click', () => {
+      options.onRun?.(info);
+    });
+
     // Bind fullscreen button (button is in wrapper, not inside pre)
     if (enableFullscreen) {
       const fullscreenBtn = preElement.parentElement?.querySelector('.code-block-fullscreen');
@@ -0,0 +1,86 @@
+/**
+ * Code Group Enhancer
+ * Switches the tabs rendered by remark-code-group.ts and keeps every group on the page on the same tab
+ */
+
+import { $codeGroupTab, initCodeGroupTab, selectCodeGroupTab } from '@store/code-group';
+
+let unsubscribe: (() => void) | null = null;
+
+/**
+ * Show the tab with the given label; groups without that label are left as they are
+ */
+function showTab(group: HTMLElement, label: string): void {
+  const tabs = group.querySelectorAll<HTMLButtonElement>('.code-group-tab');
+  const panels = group.querySelectorAll<HTMLElement>('.code-group-panel');
+  if (!Array.from(tabs).some((tab) => tab.dataset.tab === label)) return;
+
+  tabs.forEach((tab) => {
+    const selected = tab.dataset.tab === label;
+    tab.setAttribute('aria-selected', String(selected));
+    tab.tabIndex = selected ? 0 : -1;
+  });
+  panels.forEach((panel) => {
+    panel.hidden = panel.dataset.tab !== label;
+  });
+}
+
+/**
+ * Arrow keys / Home / End move between tabs (WAI-ARIA tabs pattern)
+ */
+function handleKeydown(e: KeyboardEvent, tabs: HTMLButtonElement[]): void {
+  const current = tabs.indexOf(e.currentTarget as HTMLButtonElement);
+  const next: Record<string, number> = {
+    ArrowRight: (current + 1) % tabs.length,
+    ArrowLeft: (current - 1 + tabs.length) % tabs.length,
+    Home: 0,
+    End: tabs.length - 1,
+  };
+  if (!(e.key in next)) return;
+
+  e.preventDefault();
+  const tab = tabs[next[e.key]];
+  tab.focus();
+  if (tab.dataset.tab) selectCodeGroupTab(tab.dataset.tab);
+}
+
+/**
+ * Enhance all code groups in the container
+ */
+export function enhanceCodeGroups(container: Element): void {
+  const groups = container.querySelectorAll<HTMLElement>('.code-group');
+  if (!groups.length) return;
+
+  groups.forEach((group) => {
+    if (group.dataset.enhanced === 'true') return;
+    group.dataset.enhanced = 'true';
+
+    const tabs = Array.from(group.querySelectorAll<HTMLButtonElement>('.code-group-tab'));
+    tabs.forEach((tab) => {
+      tab.addEventListener('click', () => {
+        if (tab.dataset.tab) selectCodeGroupTab(tab.dataset.tab);
+      });
+      tab.addEventListener('keydown', (e) => handleKeydown(e, tabs));
+    });
+  });
+
+  initCodeGroupTab();
+  unsubscribe?.();
+  // Fires immediately with the stored tab, then on every selection
+  unsubscribe = $codeGroupTab.subscribe((label) => {
+    if (!label) return;
+    groups.forEach((group) => {
+      showTab(group, label);
+    });
+  });
+}
+
+function cleanup(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+}
+
+// Clean up on page transitions
+if (typeof document !== 'undefined') {
+  document.addEventListener('astro:before-swap', cleanup);
+}
@@ -2,7 +2,7 @@
  * Configuration Module
  *
  * Provides type definitions for site configuration from YAML
- * YAML is now directly imported using @rollup/plugin-yaml
+ * The merged config is loaded by ./loader and imported as `virtual:site-config`
  */
 
 export type {
@@ -11,12 +11,19 @@ export type {
   ChristmasConfig,
   ChristmasFeatures,
   ContentConfig,
+  EmbedProviderName,
   FeaturedCategory,
   FeaturedSeries,
   FeaturedSeriesLinks,
+  FeedConfig,
+  FeedContentMode,
   FriendLink,
   FriendsConfig,
   FriendsIntro,
+  I18nConfig,
+  LocaleConfig,
+  LqipMode,
+  PreviewCacheMode,
   RouterItem,
   SiteBasicConfig,
   SiteYamlConfig,
@@ -0,0 +1,153 @@
+/**
+ * Layered site configuration loader
+ *
+ * Sources, from lowest to highest precedence:
+ * 1. config/site.yaml        - committed base config
+ * 2. config/site.local.yaml  - optional, git-ignored per-machine overrides (deep-merged)
+ * 3. JEET_* env variables    - one value each, e.g. JEET_COMMENT__REMARK42__HOST
+ *
+ * Used by astro.config.mjs (which exposes the result as `virtual:site-config`) and the koharu CLI,
+ * so only relative imports are allowed here.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import yaml from 'js-yaml';
+
+export const SITE_CONFIG_FILE = 'config/site.yaml';
+export const LOCAL_CONFIG_FILE = 'config/site.local.yaml';
+export const ENV_PREFIX = 'JEET_';
+
+/** Separates path segments in env variable names */
+const ENV_PATH_SEPARATOR = '__';
+
+type ConfigObject = Record<string, unknown>;
+
+export interface LoadSiteConfigOptions {
+  /** Project root (defaults to the current working directory) */
+  root?: string;
+  /** Environment variables (defaults to process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+export interface LoadedSiteConfig {
+  /** Merged config, not validated yet (see assertValidSiteConfig) */
+  config: ConfigObject;
+  /** Files and env variables that contributed, lowest precedence first */
+  sources: string[];
+}
+
+function isPlainObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Deep-merge two config objects
+ * Nested objects are merged key by key; arrays and scalars in `override` replace the base value
+ */
+export function mergeConfig(base: ConfigObject, override: ConfigObject): ConfigObject {
+  const result: ConfigObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? mergeConfig(result[key], value) : value;
+  }
+  return result;
+}
+
+function readYamlFile(file: string): ConfigObject {
+  const content = yaml.load(fs.readFileSync(file, 'utf8'));
+  if (content == null) return {};
+  if (!isPlainObject(content)) {
+    throw new Error(`Site configuration error: ${path.basename(file)} must contain a YAML mapping at the top level.`);
+  }
+  return content;
+}
+
+/**
+ * Resolve an env path segment to a config key
+ * Existing keys match case-insensitively with underscores ignored (SITE_ID → siteId),
+ * otherwise the segment is converted to camelCase
+ */
+function resolveKey(container: unknown, segment: string): string | number {
+  if (Array.isArray(container) && /^\d+$/.test(segment)) return Number(segment);
+
+  const normalized = segment.replace(/_/g, '').toLowerCase();
+  if (isPlainObject(container)) {
+    const existing = Object.keys(container).find((key) => key.replace(/_/g, '').toLowerCase() === normalized);
+    if (existing) return existing;
+  }
+  return segment.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Parse an env value as a YAML scalar, so 'true', '3600' and '[a, b]' keep their types
+ */
+function parseEnvValue(value: string): unknown {
+  try {
+    return yaml.load(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Apply JEET_* env variables to a config object
+ * Path segments are separated by a double underscore, e.g. JEET_ANALYTICS__UMAMI__ID or JEET_FEATURED_SERIES__0__ENABLED.
+ * Empty values are ignored, so unset Docker build args don't wipe the YAML values.
+ * @returns Names of the applied variables
+ */
+export function applyEnvOverrides(config: ConfigObject, env: Record<string, string | undefined>): string[] {
+  const applied: string[] = [];
+
+  for (const name of Object.keys(env).sort()) {
+    const value = env[name];
+    if (!name.startsWith(ENV_PREFIX) || value === undefined || value === '') continue;
+
+    const segments = name.slice(ENV_PREFIX.length).split(ENV_PATH_SEPARATOR).filter(Boolean);
+    if (!segments.length) continue;
+
+    let node: unknown = config;
+    for (const [index, segment] of segments.entries()) {
+      const container = node as Record<string | number, unknown>;
+      const key = resolveKey(container, segment);
+      if (index === segments.length - 1) {
+        container[key] = parseEnvValue(value);
+        break;
+      }
+      if (typeof container[key] !== 'object' || container[key] === null) {
+        container[key] = {};
+      }
+      node = container[key];
+    }
+    applied.push(name);
+  }
+
+  return applied;
+}
+
+/**
+ * Load the merged site configuration
+ * @throws When site.yaml is missing or a file is not valid YAML
+ */
+export function loadSiteConfig({ root = process.cwd(), env = process.env }: LoadSiteConfigOptions = {}): LoadedSiteConfig {
+  const basePath = path.join(root, SITE_CONFIG_FILE);
+  const localPath = path.join(root, LOCAL_CONFIG_FILE);
+
+  let config = readYamlFile(basePath);
+  const sources = [SITE_CONFIG_FILE];
+
+  if (fs.existsSync(localPath)) {
+    config = mergeConfig(config, readYamlFile(localPath));
+    sources.push(LOCAL_CONFIG_FILE);
+  }
+
+  sources.push(...applyEnvOverrides(config, env));
+
+  return { config, sources };
+}
+
+/**
+ * Get absolute paths of the config files that exist, for file watching
+ */
+export function getSiteConfigFiles(root = process.cwd()): string[] {
+  return [SITE_CONFIG_FILE, LOCAL_CONFIG_FILE].map((file) => path.join(root, file)).filter((file) => fs.existsSync(file));
+}
@@ -0,0 +1,532 @@
+/**
+ * Runtime schema for config/site.yaml
+ *
+ * Mirrors the interfaces in ./types. Type mismatches are reported as errors,
+ * unknown keys as warnings (with a "did you mean" hint), each qualified with
+ * its YAML path such as `comment.giscus.repo`.
+ *
+ * Imported by astro.config.mjs and the koharu CLI, so only relative imports are allowed here.
+ */
+
+import { z } from 'astro/zod';
+
+// =============================================================================
+// Section Schemas
+// =============================================================================
+
+/** YAML turns unquoted dates into Date objects, quoted ones stay strings */
+const dateLike = z.union([z.string(), z.date()]);
+
+const siteSchema = z
+  .object({
+    title: z.string(),
+    alternate: z.string().optional(),
+    subtitle: z.string().optional(),
+    name: z.string(),
+    description: z.string().optional(),
+    avatar: z.string().optional(),
+    showLogo: z.boolean().optional(),
+    author: z.string().optional(),
+    url: z.string().url(),
+    startYear: z.number().int().optional(),
+    keywords: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const featuredCategorySchema = z
+  .object({
+    link: z.string(),
+    image: z.string(),
+    label: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .strict();
+
+const featuredSeriesSchema = z
+  .object({
+    slug: z.string().optional(),
+    categoryName: z.string().min(1),
+    label: z.string().optional(),
+    enabled: z.boolean().optional(),
+    fullName: z.string().optional(),
+    description: z.string().optional(),
+    cover: z.string().optional(),
+    icon: z.string().optional(),
+    highlightOnHome: z.boolean().optional(),
+    links: z
+      .object({
+        github: z.string().optional(),
+        rss: z.string().optional(),
+        chrome: z.string().optional(),
+        docs: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const socialPlatformSchema = z
+  .object({
+    url: z.string(),
+    icon: z.string(),
+    color: z.string(),
+  })
+  .strict();
+
+const friendsSchema = z
+  .object({
+    intro: z
+      .object({
+        title: z.string(),
+        subtitle: z.string().optional(),
+        applyTitle: z.string().optional(),
+        applyDesc: z.string().optional(),
+        exampleYaml: z.string().optional(),
+      })
+      .strict(),
+    data: z
+      .array(
+        z
+          .object({
+            site: z.string(),
+            url: z.string(),
+            owner: z.string(),
+            desc: z.string(),
+            image: z.string(),
+            color: z.string().optional(),
+          })
+          .strict(),
+      )
+      .nullish(),
+  })
+  .strict();
+
+const announcementSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    content: z.string(),
+    type: z.enum(['info', 'warning', 'success', 'important']).optional(),
+    publishDate: dateLike.optional(),
+    startDate: dateLike.optional(),
+    endDate: dateLike.optional(),
+    priority: z.number().optional(),
+    link: z
+      .object({
+        url: z.string(),
+        text: z.string().optional(),
+        external: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    color: z.string().optional(),
+  })
+  .strict();
+
+const contentSchema = z
+  .object({
+    addBlankTarget: z.boolean(),
+    smoothScroll: z.boolean(),
+    addHeadingLevel: z.boolean(),
+    enhanceCodeBlock: z.boolean(),
+    enableCodeCopy: z.boolean(),
+    enableCodeFullscreen: z.boolean(),
+    enableLinkEmbed: z.boolean(),
+    enableTweetEmbed: z.boolean(),
+    enableOGPreview: z.boolean(),
+    previewCacheTime: z.number().nonnegative(),
+    previewCacheMode: z.enum(['online', 'offline']).optional(),
+    lazyLoadEmbeds: z.boolean(),
+    embedProviders: z
+      .object({
+        tweet: z.boolean(),
+        codepen: z.boolean(),
+        youtube: z.boolean(),
+        bilibili: z.boolean(),
+        github: z.boolean(),
+        gist: z.boolean(),
+        spotify: z.boolean(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    lqipMode: z.enum(['gradient', 'blurhash', 'thumbhash', 'webp']).optional(),
+    codeCollapseLines: z.number().int().nonnegative().optional(),
+    bibliography: z.string().min(1).optional(),
+  })
+  .strict();
+
+const feedSchema = z
+  .object({
+    limit: z.number().int().nonnegative(),
+    content: z.enum(['full', 'summary']),
+    includeCover: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+type RouterItemInput = { name?: string; path?: string; icon?: string; children?: RouterItemInput[] };
+
+const routerItemSchema: z.ZodType<RouterItemInput> = z.lazy(() =>
+  z
+    .object({
+      name: z.string().optional(),
+      path: z.string().optional(),
+      icon: z.string().optional(),
+      children: z.array(routerItemSchema).optional(),
+    })
+    .strict(),
+);
+
+const giscusFlag = z.enum(['0', '1']);
+
+const walineMeta = z.enum(['nick', 'mail', 'link']);
+
+const commentSchema = z
+  .object({
+    provider: z.enum(['remark42', 'giscus', 'waline', 'none']).optional(),
+    remark42: z
+      .object({
+        host: z.string().url(),
+        siteId: z.string(),
+      })
+      .strict()
+      .optional(),
+    giscus: z
+      .object({
+        repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'Expected "owner/repo"'),
+        repoId: z.string(),
+        category: z.string().optional(),
+        categoryId: z.string().optional(),
+        mapping: z.enum(['url', 'title', 'og:title', 'specific', 'number', 'pathname']).optional(),
+        term: z.string().optional(),
+        strict: giscusFlag.optional(),
+        reactionsEnabled: giscusFlag.optional(),
+        emitMetadata: giscusFlag.optional(),
+        inputPosition: z.enum(['top', 'bottom']).optional(),
+        lang: z.string().optional(),
+        host: z.string().url().optional(),
+        theme: z.string().optional(),
+        loading: z.enum(['lazy', 'eager']).optional(),
+      })
+      .strict()
+      .optional(),
+    waline: z
+      .object({
+        serverURL: z.string().url(),
+        lang: z.string().optional(),
+        dark: z.union([z.string(), z.boolean()]).optional(),
+        meta: z.array(walineMeta).optional(),
+        requiredMeta: z.array(walineMeta).optional(),
+        login: z.enum(['enable', 'disable', 'force']).optional(),
+        wordLimit: z.union([z.number(), z.tuple([z.number(), z.number()])]).optional(),
+        pageSize: z.number().int().positive().optional(),
+        imageUploader: z.boolean().optional(),
+        highlighter: z.boolean().optional(),
+        texRenderer: z.boolean().optional(),
+        search: z.boolean().optional(),
+        reaction: z.union([z.boolean(), z.array(z.string())]).optional(),
+        recaptchaV3Key: z.string().optional(),
+        turnstileKey: z.string().optional(),
+        emoji: z
+          .union([
+            z.boolean(),
+            z.array(
+              z.union([
+                z.string(),
+                z
+                  .object({
+                    name: z.string(),
+                    folder: z.string().optional(),
+                    prefix: z.string().optional(),
+                    type: z.string().optional(),
+                    icon: z.string(),
+                    items: z.array(z.string()),
+                  })
+                  .strict(),
+              ]),
+            ),
+          ])
+          .optional(),
+        commentSorting: z.enum(['latest', 'oldest', 'hottest']).optional(),
+        noCopyright: z.boolean().optional(),
+        comment: z.union([z.string(), z.boolean()]).optional(),
+        pageview: z.union([z.string(), z.boolean()]).optional(),
+        locale: z.record(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .superRefine((comment, ctx) => {
+    // The selected provider needs its own section
+    const provider = comment.provider;
+    if (provider && provider !== 'none' && !comment[provider]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [provider],
+        message: `Required when comment.provider is "${provider}"`,
+      });
+    }
+  });
+
+const analyticsSchema = z
+  .object({
+    umami: z
+      .object({
+        enabled: z.boolean(),
+        id: z.string(),
+        endpoint: z.string().url(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const christmasSchema = z
+  .object({
+    enabled: z.boolean(),
+    features: z
+      .object({
+        snowfall: z.boolean(),
+        christmasColorScheme: z.boolean(),
+        christmasCoverDecoration: z.boolean(),
+        christmasHat: z.boolean(),
+        readingTimeSnow: z.boolean(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    snowfall: z
+      .object({
+        speed: z.number().min(0).max(1),
+        intensity: z.number().min(0).max(1),
+        mobileIntensity: z.number().min(0).max(1),
+        maxLayers: z.number().int().positive(),
+        maxIterations: z.number().int().positive(),
+        mobileMaxLayers: z.number().int().positive(),
+        mobileMaxIterations: z.number().int().positive(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const i18nSchema = z
+  .object({
+    defaultLocale: z.string().min(1),
+    locales: z
+      .array(
+        z
+          .object({
+            code: z.string().min(1),
+            label: z.string(),
+            htmlLang: z.string().optional(),
+            strings: z.record(z.string()).optional(),
+            categoryLabels: z.record(z.string()).optional(),
+          })
+          .strict(),
+      )
+      .min(1),
+  })
+  .strict();
+
+/**
+ * Schema of the whole config/site.yaml file
+ * Empty YAML sections (e.g. `announcements:` with every item commented out) parse as null and are accepted
+ */
+export const siteYamlSchema = z
+  .object({
+    site: siteSchema,
+    featuredCategories: z.array(featuredCategorySchema).nullish(),
+    featuredSeries: z.union([z.array(featuredSeriesSchema), featuredSeriesSchema]).nullish(),
+    social: z.record(socialPlatformSchema).nullish(),
+    friends: friendsSchema.nullish(),
+    announcements: z.array(announcementSchema).nullish(),
+    content: contentSchema.nullish(),
+    feed: feedSchema.nullish(),
+    navigation: z.array(routerItemSchema).nullish(),
+    comment: commentSchema.nullish(),
+    analytics: analyticsSchema.nullish(),
+    categoryMap: z.record(z.string()).nullish(),
+    christmas: christmasSchema.nullish(),
+    i18n: i18nSchema.nullish(),
+  })
+  .strict();
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export interface ConfigIssue {
+  /** YAML path, e.g. 'comment.giscus.repo' or 'featuredSeries[0].slug' */
+  path: string;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+/**
+ * Format a zod path as a YAML path
+ * @example formatPath(['featuredSeries', 0, 'slug']) => 'featuredSeries[0].slug'
+ */
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Find the object schema at a path, used to suggest known keys
+ */
+function getObjectShape(schema: z.ZodTypeAny, path: (string | number)[]): Record<string, z.ZodTypeAny> | null {
+  let current: z.ZodTypeAny = schema;
+  const unwrap = (type: z.ZodTypeAny): z.ZodTypeAny => {
+    if (type instanceof z.ZodOptional || type instanceof z.ZodNullable) return unwrap(type.unwrap());
+    if (type instanceof z.ZodEffects) return unwrap(type.innerType());
+    if (type instanceof z.ZodLazy) return unwrap(type.schema);
+    if (type instanceof z.ZodUnion) {
+      // Prefer the object/array branch, which is the one that can hold unknown keys
+      const options = type.options as z.ZodTypeAny[];
+      const branch = options.map(unwrap).find((option) => option instanceof z.ZodObject || option instanceof z.ZodArray);
+      return branch ?? type;
+    }
+    return type;
+  };
+
+  for (const segment of path) {
+    current = unwrap(current);
+    if (typeof segment === 'number' && current instanceof z.ZodArray) {
+      current = current.element;
+    } else if (current instanceof z.ZodObject) {
+      const shape = current.shape as Record<string, z.ZodTypeAny>;
+      if (!shape[segment]) return null;
+      current = shape[segment];
+    } else if (current instanceof z.ZodRecord) {
+      current = current.valueSchema;
+    } else {
+      return null;
+    }
+  }
+
+  current = unwrap(current);
+  if (current instanceof z.ZodArray) current = unwrap(current.element);
+  return current instanceof z.ZodObject ? (current.shape as Record<string, z.ZodTypeAny>) : null;
+}
+
+/**
+ * Levenshtein distance, used for "did you mean" hints
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestKey(key: string, knownKeys: string[]): string | undefined {
+  let best: { key: string; distance: number } | undefined;
+  for (const known of knownKeys) {
+    const distance = editDistance(key, known);
+    if (distance <= Math.max(2, Math.floor(known.length / 4)) && (!best || distance < best.distance)) {
+      best = { key: known, distance };
+    }
+  }
+  return best?.key;
+}
+
+/**
+ * Describe a received value for error messages
+ */
+function describeValue(config: unknown, path: (string | number)[]): string {
+  const value = path.reduce<unknown>(
+    (node, segment) => (node && typeof node === 'object' ? (node as Record<string | number, unknown>)[segment] : undefined),
+    config,
+  );
+  if (value === undefined) return '';
+  const text = JSON.stringify(value);
+  return text && text.length <= 60 ? ` (got ${text})` : '';
+}
+
+/**
+ * Validate a parsed site.yaml object
+ * @param config Parsed YAML
+ * @returns Path-qualified errors (type mismatches, missing fields) and warnings (unknown keys)
+ */
+export function validateSiteConfig(config: unknown): ConfigValidationResult {
+  const result: ConfigValidationResult = { errors: [], warnings: [] };
+  const parsed = siteYamlSchema.safeParse(config);
+  if (parsed.success) return result;
+
+  const collect = (issue: z.ZodIssue) => {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      const knownKeys = Object.keys(getObjectShape(siteYamlSchema, issue.path) ?? {});
+      for (const key of issue.keys) {
+        const suggestion = suggestKey(key, knownKeys);
+        result.warnings.push({
+          path: formatPath([...issue.path, key]),
+          message: `Unknown key, it will be ignored${suggestion ? `. Did you mean "${suggestion}"?` : ''}`,
+        });
+      }
+      return;
+    }
+
+    if (issue.code === z.ZodIssueCode.invalid_union) {
+      // Report the branch that got furthest instead of zod's generic "Invalid input"
+      const [branchIssues] = issue.unionErrors
+        .map((error) => error.issues)
+        .sort((a, b) => Math.max(...b.map((i) => i.path.length)) - Math.max(...a.map((i) => i.path.length)));
+      branchIssues?.forEach(collect);
+      return;
+    }
+
+    result.errors.push({
+      path: formatPath(issue.path) || '(root)',
+      message: `${issue.message}${describeValue(config, issue.path)}`,
+    });
+  };
+
+  parsed.error.issues.forEach(collect);
+  return result;
+}
+
+/**
+ * Format an issue as a single line
+ */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+/**
+ * Validate site.yaml and fail the build on errors
+ * Warnings are printed but don't stop the build
+ * @param config Parsed YAML
+ * @param source File name shown in messages
+ */
+export function assertValidSiteConfig(config: unknown, source = 'config/site.yaml'): void {
+  const { errors, warnings } = validateSiteConfig(config);
+
+  for (const warning of warnings) {
+    console.warn(`[Warning] ${source}: ${formatConfigIssue(warning)}`);
+  }
+
+  if (errors.length) {
+    throw new Error(
+      `Site configuration error: ${source} has ${errors.length} invalid ${errors.length === 1 ? 'value' : 'values'}.\n` +
+        errors.map((error) => `  - ${formatConfigIssue(error)}`).join('\n') +
+        `\nRun \`pnpm koharu config check\` after fixing them.`,
+    );
+  }
+}
@@ -46,7 +46,7 @@ export interface FeaturedSeriesLinks {
 export interface FeaturedSeriesItem {
   /** URL path for this series (e.g., 'weekly' → /weekly) */
   slug: string;
-  /** Category name this series is based on */
+  /** Category this series is based on: a root category name or a '/'-separated path (e.g. 'notes/weekly') */
   categoryName: string;
   /** Short label for sidebar/navigation */
   label?: string;
@@ -136,6 +136,15 @@ export interface AnnouncementConfig {
 // Content Processing Configuration
 // =============================================================================
 
+/** Link embed providers (see src/lib/markdown/embed-providers) */
+export type EmbedProviderName = 'tweet' | 'codepen' | 'youtube' | 'bilibili' | 'github' | 'gist' | 'spotify';
+
+/** 'online' fetches missing and expired link previews at build time, 'offline' never fetches */
+export type PreviewCacheMode = 'online' | 'offline';
+
+/** Image placeholder algorithm of `pnpm generate:lqips` */
+export type LqipMode = 'gradient' | 'blurhash' | 'thumbhash' | 'webp';
+
 export interface ContentConfig {
   addBlankTarget: boolean;
   smoothScroll: boolean;
@@ -147,7 +156,33 @@ export interface ContentConfig {
   enableTweetEmbed: boolean;
   enableOGPreview: boolean;
   previewCacheTime: number;
+  /** 'offline' renders link previews from .cache and the committed snapshot only, without network requests */
+  previewCacheMode?: PreviewCacheMode;
   lazyLoadEmbeds: boolean;
+  /** Turn individual link embed providers on/off (all on by default; tweets also need enableTweetEmbed) */
+  embedProviders?: Partial<Record<EmbedProviderName, boolean>>;
+  /** Placeholder shown while images load: three-color gradient (default), BlurHash, ThumbHash or tiny base64 WebP */
+  lqipMode?: LqipMode;
+  /** Collapse code blocks longer than this many lines behind an expand button (0 = never) */
+  codeCollapseLines?: number;
+  /** Site-wide bibliography for [@key] citations (.bib or CSL-JSON .json), relative to the project root */
+  bibliography?: string;
+}
+
+// =============================================================================
+// Feed Configuration
+// =============================================================================
+
+/** 'full' ships the rendered article, 'summary' only its description */
+export type FeedContentMode = 'full' | 'summary';
+
+export interface FeedConfig {
+  /** Maximum number of posts per feed (0 = no limit) */
+  limit: number;
+  /** Item content mode */
+  content: FeedContentMode;
+  /** Attach post covers as <enclosure> / media:content */
+  includeCover: boolean;
 }
 
 // =============================================================================
@@ -395,6 +430,32 @@ export interface ChristmasConfig {
   snowfall: SnowfallConfig;
 }
 
+// =============================================================================
+// Internationalization
+// =============================================================================
+
+/**
+ * Single locale configuration
+ */
+export interface LocaleConfig {
+  /** Locale code used in URLs and the `lang` frontmatter field (e.g., 'en', 'zh') */
+  code: string;
+  /** Name shown in the language switcher (e.g., 'English', '简体中文') */
+  label: string;
+  /** BCP 47 tag used for `<html lang>` and hreflang (defaults to code) */
+  htmlLang?: string;
+  /** Per-locale overrides for built-in UI strings */
+  strings?: Record<string, string>;
+  /** Display names for categories in this locale, keyed by category name */
+  categoryLabels?: Record<string, string>;
+}
+
+export interface I18nConfig {
+  /** Locale of posts without a `lang` field; served without a URL prefix */
+  defaultLocale: string;
+  locales: LocaleConfig[];
+}
+
 // =============================================================================
 // Root Configuration Type
 // =============================================================================
@@ -408,9 +469,12 @@ export interface SiteYamlConfig {
   friends?: FriendsConfig;
   announcements?: AnnouncementConfig[];
   content?: ContentConfig;
+  feed?: Partial<FeedConfig>;
   navigation?: RouterItem[];
   comment?: CommentConfig;
   analytics?: AnalyticsConfig;
-  categoryMap?: Record<string, string>; // TODO: i18n, now use eg: { 'Essays': 'life' }
+  /** Category name → URL slug, e.g. { 'Essays': 'life' }. Localized labels live in i18n.locales[].categoryLabels */
+  categoryMap?: Record<string, string>;
   christmas?: ChristmasConfig;
+  i18n?: I18nConfig;
 }
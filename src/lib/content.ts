@@ -13,12 +13,26 @@ export {
   buildCategoryPath,
   getCategoryArr,
   getCategoryByLink,
+  getCategoryByPath,
+  getCategoryKey,
   getCategoryLinks,
   getCategoryList,
   getCategoryNameByLink,
   getParentCategory,
 } from './content/categories';
 
+// =============================================================================
+// History Utilities
+// =============================================================================
+export type { PostHistory, PostRevision } from './content/history';
+export { getPostHistory } from './content/history';
+
+// =============================================================================
+// Post Index
+// =============================================================================
+export type { PostIndex } from './content/post-index';
+export { getPostIndex, isOrderedSeries } from './content/post-index';
+
 // =============================================================================
 // Post Utilities
 // =============================================================================
@@ -45,10 +59,13 @@ export {
   getPostLastCategory,
   getPostSummary,
   getPostsByCategory,
+  getPostsByCategoryPath,
   getPostsBySeriesSlug,
   getPostsBySticky,
+  getPostsByTag,
   getRandomPosts,
   getSeriesBySlug,
+  getSeriesCategoryPath,
   getSeriesPosts,
   getSortedPosts,
   /** @deprecated Use getPostsBySeriesSlug('weekly') instead */
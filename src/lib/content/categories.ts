@@ -2,23 +2,20 @@
  * Category-related utility functions
  */
 
-import { getCollection } from 'astro:content';
 import { categoryMap } from '@constants/category';
 
+import { getPostIndex } from './post-index';
 import type { Category, CategoryListResult } from './types';
 
 /**
- * Get hierarchical category list with counts (excluding drafts in production)
+ * Get hierarchical category list with counts (excluding drafts and scheduled posts in production)
  */
 export async function getCategoryList(): Promise<CategoryListResult> {
-  const allBlogPosts = await getCollection('blog', ({ data }) => {
-    // In production, filter out drafts
-    return import.meta.env.PROD ? data.draft !== true : true;
-  });
-  const countMap: { [key: string]: number } = {}; // TODO: Need optimization, should use category path as key instead of name (e.g., if data structure is both root category and note-backend-data-structure)
+  const { posts: allBlogPosts } = await getPostIndex();
+  const countMap: { [key: string]: number } = {};
   const resCategories: Category[] = [];
 
-  // Count direct article count for each category
+  // Count articles for each category path, so same-named categories under different parents stay apart
   for (let i = 0; i < allBlogPosts.length; ++i) {
     const post = allBlogPosts[i];
     const { catalog, categories } = post.data;
@@ -26,55 +23,58 @@ export async function getCategoryList(): Promise<CategoryListResult> {
       continue;
     }
 
-    const firstCategory = categories[0];
-    if (Array.isArray(firstCategory)) {
-      // categories[0] = ['Notes', 'Algorithm']
-      if (!firstCategory.length) continue;
-
-      for (let j = 0; j < firstCategory.length; ++j) {
-        const name = firstCategory[j];
-        countMap[name] = (countMap[name] || 0) + 1;
-        if (j === 0) {
-          addCategoryRecursively(resCategories, [], name);
-        } else {
-          const parentNames = firstCategory.slice(0, j);
-          addCategoryRecursively(resCategories, parentNames, name);
-        }
-      }
-    } else if (typeof firstCategory === 'string') {
-      // categories[0] = 'Tools'
-      countMap[firstCategory] = (countMap[firstCategory] || 0) + 1;
-      addCategoryRecursively(resCategories, [], firstCategory);
+    // categories[0] = ['Notes', 'Algorithm'] or 'Tools'
+    const categoryPath = getCategoryArr(categories[0]);
+    for (let j = 0; j < categoryPath.length; ++j) {
+      const key = getCategoryKey(categoryPath.slice(0, j + 1));
+      countMap[key] = (countMap[key] || 0) + 1;
+      addCategoryRecursively(resCategories, categoryPath.slice(0, j), categoryPath[j]);
     }
   }
 
   return { categories: resCategories, countMap };
 }
 
+/**
+ * Get the identity key of a category, used for countMap and post lookups
+ * @param categoryPath Category names from the root, or a single root category name
+ * @returns Names joined with '/', e.g. 'Notes/Backend/Data Structure'
+ */
+export function getCategoryKey(categoryPath: string | string[]): string {
+  return getCategoryArr(categoryPath).join('/');
+}
+
 /**
  * Recursively add subcategories with side effects. For example, ['Category1', 'Category2', 'Category3'] creates level-1 category 'Category1', level-2 category 'Category2', level-3 category 'Category3'
  * @param rootCategories Root categories
  * @param parentNames Parent category names ['Category1', 'Category2']
  * @param name Child category name 'Category3'
+ * @param basePath Path of the categories in rootCategories (set while recursing)
  */
-export function addCategoryRecursively(rootCategories: Category[], parentNames: string[], name: string) {
+export function addCategoryRecursively(
+  rootCategories: Category[],
+  parentNames: string[],
+  name: string,
+  basePath: string[] = [],
+) {
   if (parentNames.length === 0) {
     const index = rootCategories.findIndex((c) => c.name === name); // If current category already exists, return directly
-    if (index === -1) rootCategories.push({ name });
+    if (index === -1) rootCategories.push({ name, path: [...basePath, name] });
     return;
   } else {
     const rootParentName = parentNames[0];
+    const rootParentPath = [...basePath, rootParentName];
     const index = rootCategories.findIndex((c) => c.name === rootParentName);
     if (index === -1) {
       // If parent category does not exist, create it
-      const rootParentCategory = { name: rootParentName, children: [] };
+      const rootParentCategory = { name: rootParentName, path: rootParentPath, children: [] };
       rootCategories.push(rootParentCategory);
-      addCategoryRecursively(rootParentCategory.children, parentNames.slice(1), name);
+      addCategoryRecursively(rootParentCategory.children, parentNames.slice(1), name, rootParentPath);
     } else {
       // If parent category exists, find this category
       const rootParentCategory = rootCategories[index];
       if (!rootParentCategory?.children) rootParentCategory.children = [];
-      addCategoryRecursively(rootParentCategory.children, parentNames.slice(1), name);
+      addCategoryRecursively(rootParentCategory.children, parentNames.slice(1), name, rootParentPath);
     }
   }
 }
@@ -122,46 +122,46 @@ export function getCategoryNameByLink(link: string): string {
 
 /**
  * Get category by link
+ * Each segment is matched on its own level, so 'note/back-end/data-structure' and 'data-structure' are different categories
+ * @param categories Category tree from getCategoryList
+ * @param link note/front-end
  */
 export function getCategoryByLink(categories: Category[], link?: string): Category | null {
-  const name = getCategoryNameByLink(link ?? '');
-  if (!name || !categories?.length) return null;
-  for (let i = 0; i < categories.length; ++i) {
-    const category = categories[i];
-    if (category.name === name) {
-      return category;
-    }
-    if (category?.children?.length) {
-      const res = getCategoryByLink(category.children, link);
-      if (res) return res;
-    }
+  const segments = (link ?? '').split('/').filter(Boolean);
+  if (!segments.length || !categories?.length) return null;
+
+  let level: Category[] | undefined = categories;
+  let category: Category | null = null;
+  for (const segment of segments) {
+    category = level?.find((c) => categoryMap[c.name] === segment) ?? null;
+    if (!category) return null;
+    level = category.children;
   }
-  return null;
+  return category;
 }
 
 /**
- * Get parent category of a category (recursively find)
+ * Get category by its full path
+ * @param categories Category tree from getCategoryList
+ * @param categoryPath Category names from the root ['Notes', 'Frontend']
  */
-export function getParentCategory(category: Category | null, categories: Category[]): Category | null {
-  if (!categories?.length || !category) return null;
-
-  for (const c of categories) {
-    if (!c.children?.length) continue;
-
-    // Directly check current level
-    if (c.children.some((child) => child.name === category.name)) {
-      return c;
-    }
-
-    // Recursively check subcategories
-    for (const child of c.children) {
-      if (child.children?.length) {
-        const result = getParentCategory(category, [child]);
-        if (result) return result;
-      }
-    }
+export function getCategoryByPath(categories: Category[], categoryPath: string[]): Category | null {
+  let level: Category[] | undefined = categories;
+  let category: Category | null = null;
+  for (const name of categoryPath) {
+    category = level?.find((c) => c.name === name) ?? null;
+    if (!category) return null;
+    level = category.children;
   }
-  return null;
+  return category;
+}
+
+/**
+ * Get parent category of a category
+ */
+export function getParentCategory(category: Category | null, categories: Category[]): Category | null {
+  if (!categories?.length || !category || category.path.length < 2) return null;
+  return getCategoryByPath(categories, category.path.slice(0, -1));
 }
 
 /**
@@ -182,9 +182,7 @@ export function buildCategoryPath(categoryNames: string | string[]): string {
 /**
  * Normalize ['Category1', 'Category2'] and 'Category'
  */
-export function getCategoryArr(categories?: string[] | string) {
+export function getCategoryArr(categories?: string[] | string): string[] {
   if (!categories) return [];
-  if (Array.isArray(categories) && categories.length) {
-    return categories as string[];
-  } else return [categories as string];
+  return Array.isArray(categories) ? categories : [categories];
 }
@@ -0,0 +1,71 @@
+/**
+ * Git-based post revision history utilities
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { BlogPost } from 'types/blog';
+
+export interface PostRevision {
+  /** Abbreviated commit hash */
+  hash: string;
+  /** Commit date (ISO 8601) */
+  date: string;
+  author: string;
+  subject: string;
+}
+
+export interface PostHistory {
+  lastModified: Date;
+  /** Total number of commits touching the post */
+  revisionCount: number;
+  /** Latest revisions, newest first */
+  revisions: PostRevision[];
+}
+
+type PostHistoryMap = Record<string, { lastModified: string; revisionCount: number; revisions: PostRevision[] }>;
+
+/** Generated by `pnpm generate:history` before each build, not committed */
+const HISTORY_FILE = path.join(process.cwd(), 'src/assets/post-history.json');
+
+// Load history data (generated at build time)
+let historyData: PostHistoryMap = {};
+
+try {
+  // Read from disk rather than import, the file is git-ignored and may not exist
+  historyData = JSON.parse(fs.readFileSync(HISTORY_FILE, 'utf-8')) as PostHistoryMap;
+} catch {
+  // File doesn't exist yet or failed to load
+  console.warn('post-history.json not found. Run `pnpm generate:history` to generate it.');
+}
+
+/**
+ * Get git revision history of a post
+ * @param post Post object
+ * @returns History data, or undefined when the post has not been committed yet
+ */
+export function getPostHistory(post: BlogPost): PostHistory | undefined {
+  const entry = historyData[post.id];
+  if (!entry) return undefined;
+
+  return {
+    lastModified: new Date(entry.lastModified),
+    revisionCount: entry.revisionCount,
+    revisions: entry.revisions,
+  };
+}
+
+/**
+ * Fill in `updated` from git history for posts that don't set it
+ * Only posts edited after their first commit get a date, so new posts don't show "Updated on"
+ * @param post Post object (mutated in place so every consumer sees the same date)
+ */
+export function applyGitUpdatedDate(post: BlogPost): BlogPost {
+  if (post.data.updated) return post;
+
+  const history = getPostHistory(post);
+  if (history && history.revisionCount > 1 && history.lastModified > post.data.date) {
+    post.data.updated = history.lastModified;
+  }
+  return post;
+}
@@ -0,0 +1,167 @@
+/**
+ * Post index
+ *
+ * Loads the blog collection once per build and precomputes the lookups that
+ * pages otherwise rebuild for every route: sorted posts, category and tag
+ * membership, and series membership. All post queries go through this index
+ * so filtering rules (drafts, scheduled posts) stay in one place.
+ */
+
+import { getCollection } from 'astro:content';
+import { getPostLocale } from '@lib/i18n';
+import type { BlogPost } from 'types/blog';
+import { getCategoryArr, getCategoryKey } from './categories';
+import { applyGitUpdatedDate } from './history';
+import { isPublishedEntry } from './publish';
+import { normalizeTag } from './tags';
+
+export interface PostIndex {
+  /** Published posts sorted by date (newest first) */
+  posts: BlogPost[];
+  /** Posts by category path prefix (see getCategoryKey), so a path includes its subcategories */
+  byCategoryPath: Map<string, BlogPost[]>;
+  /** Posts by normalized tag */
+  byTag: Map<string, BlogPost[]>;
+  /** Posts by `series` frontmatter value and locale, in reading order */
+  bySeries: Map<string, BlogPost[]>;
+}
+
+let indexPromise: Promise<PostIndex> | null = null;
+
+/**
+ * Get the map key of a series
+ */
+function getSeriesKey(series: string, locale: string): string {
+  return `${locale}:${series}`;
+}
+
+function appendTo<K>(map: Map<K, BlogPost[]>, key: K, post: BlogPost) {
+  const list = map.get(key);
+  if (list) list.push(post);
+  else map.set(key, [post]);
+}
+
+/**
+ * Check whether a series is in reading order, i.e. any of its posts sets `seriesOrder`
+ */
+export function isOrderedSeries(posts: BlogPost[]): boolean {
+  return posts.some((post) => post.data.seriesOrder !== undefined);
+}
+
+/**
+ * Sort series posts
+ * In an ordered series (see isOrderedSeries) posts with `seriesOrder` come first in ascending order,
+ * followed by the rest in date order (oldest first), so the whole list reads from first to last part.
+ * Series without any `seriesOrder` keep date order (newest first)
+ * @param posts Series posts, sorted by date (newest first)
+ * @returns New sorted array
+ */
+export function sortSeriesPosts(posts: BlogPost[]): BlogPost[] {
+  if (!isOrderedSeries(posts)) return [...posts];
+
+  return [...posts].sort((a, b) => {
+    const orderA = a.data.seriesOrder;
+    const orderB = b.data.seriesOrder;
+    if (orderA !== undefined && orderB !== undefined) return orderA - orderB;
+    if (orderA !== undefined) return -1;
+    if (orderB !== undefined) return 1;
+    return new Date(a.data.date).getTime() - new Date(b.data.date).getTime();
+  });
+}
+
+async function buildPostIndex(): Promise<PostIndex> {
+  const entries = await getCollection('blog', isPublishedEntry);
+
+  // Posts without a hand-written `updated` take it from git history
+  const posts = entries
+    .sort((a, b) => new Date(b.data.date).getTime() - new Date(a.data.date).getTime())
+    .map(applyGitUpdatedDate);
+
+  const byCategoryPath = new Map<string, BlogPost[]>();
+  const byTag = new Map<string, BlogPost[]>();
+  const bySeries = new Map<string, BlogPost[]>();
+
+  // Posts are visited newest first, so every list below is already sorted by date
+  for (const post of posts) {
+    const categoryPath = getCategoryArr(post.data.categories?.[0]);
+    for (let depth = 1; depth <= categoryPath.length; depth++) {
+      appendTo(byCategoryPath, getCategoryKey(categoryPath.slice(0, depth)), post);
+    }
+
+    for (const tag of new Set((post.data.tags ?? []).map(normalizeTag))) {
+      appendTo(byTag, tag, post);
+    }
+
+    if (post.data.series) {
+      appendTo(bySeries, getSeriesKey(post.data.series, getPostLocale(post)), post);
+    }
+  }
+
+  for (const [key, seriesPosts] of bySeries) {
+    bySeries.set(key, sortSeriesPosts(seriesPosts));
+  }
+
+  return { posts, byCategoryPath, byTag, bySeries };
+}
+
+/**
+ * Get the post index
+ * Built once and shared by every page in production; rebuilt on each call in development so edits show up
+ */
+export function getPostIndex(): Promise<PostIndex> {
+  if (!indexPromise || import.meta.env.DEV) {
+    indexPromise = buildPostIndex();
+  }
+  return indexPromise;
+}
+
+// =============================================================================
+// Query Helpers
+// =============================================================================
+// Helpers return copies so callers can sort or splice without corrupting the shared index
+
+/**
+ * Check if an article belongs to a category path or one of its subcategories
+ * @param post Post
+ * @param categoryPath Category names from the root
+ */
+export function isPostInCategory(post: BlogPost, categoryPath: string[]): boolean {
+  const postCategoryPath = getCategoryArr(post.data.categories?.[0]);
+  return categoryPath.length > 0 && categoryPath.every((name, index) => postCategoryPath[index] === name);
+}
+
+/**
+ * Get all published posts sorted by date (newest first)
+ */
+export async function queryPosts(): Promise<BlogPost[]> {
+  const { posts } = await getPostIndex();
+  return [...posts];
+}
+
+/**
+ * Get posts under a category path, including its subcategories (newest first)
+ * @param categoryNames Category path, e.g. ['Notes', 'Frontend']
+ */
+export async function queryPostsByCategoryPath(categoryNames: string[]): Promise<BlogPost[]> {
+  if (!categoryNames.length) return [];
+  const { byCategoryPath } = await getPostIndex();
+  return [...(byCategoryPath.get(getCategoryKey(categoryNames)) ?? [])];
+}
+
+/**
+ * Get posts with a tag, compared case-insensitively (newest first)
+ */
+export async function queryPostsByTag(tag: string): Promise<BlogPost[]> {
+  const { byTag } = await getPostIndex();
+  return [...(byTag.get(normalizeTag(tag)) ?? [])];
+}
+
+/**
+ * Get posts of a `series` in one locale, in reading order
+ * @param series `series` frontmatter value
+ * @param locale Post locale
+ */
+export async function queryPostsBySeries(series: string, locale: string): Promise<BlogPost[]> {
+  const { bySeries } = await getPostIndex();
+  return [...(bySeries.get(getSeriesKey(series, locale)) ?? [])];
+}
@@ -2,14 +2,24 @@
  * Post-related utility functions
  */
 
-import { type CollectionEntry, getCollection } from 'astro:content';
+import type { CollectionEntry } from 'astro:content';
 
 import summaries from '@assets/summaries.json';
 import { siteConfig } from '@constants/site-config';
 import type { FeaturedSeriesItem } from '@lib/config/types';
+import { getLocalizedSlug, getPostLocale } from '@lib/i18n';
 import type { BlogPost } from 'types/blog';
 import { extractTextFromMarkdown } from '../sanitize';
-import { buildCategoryPath } from './categories';
+import { buildCategoryPath, getCategoryArr } from './categories';
+import {
+  getPostIndex,
+  isPostInCategory,
+  queryPosts,
+  queryPostsByCategoryPath,
+  queryPostsBySeries,
+  queryPostsByTag,
+  sortSeriesPosts,
+} from './post-index';
 
 /** AI summary data type */
 type SummariesData = Record<string, { title: string; summary: string }>;
@@ -27,7 +37,7 @@ export function getPostDescription(post: BlogPost, maxLength: number = 150): str
 
 /**
  * Get article's AI summary
- * @param slug Article slug (usually post.data.link or post.slug)
+ * @param slug Localized article slug (see getLocalizedSlug)
  * @returns AI summary text, returns null if not present
  */
 export function getPostSummary(slug: string): string | null {
@@ -43,26 +53,16 @@ export function getPostSummary(slug: string): string | null {
  * @returns Article description text
  */
 export function getPostDescriptionWithSummary(post: BlogPost, maxLength: number = 150): string {
-  const slug = post.data?.link ?? post.slug;
-  return post.data.description || getPostSummary(slug) || extractTextFromMarkdown(post.body, maxLength);
+  return post.data.description || getPostSummary(getLocalizedSlug(post)) || extractTextFromMarkdown(post.body, maxLength);
 }
 
 /**
  * Get all posts sorted by date (newest first)
- * In production, draft posts are filtered out
+ * In production, draft and scheduled posts are filtered out
+ * `updated` is filled from git history when absent
  */
 export async function getSortedPosts(): Promise<CollectionEntry<'blog'>[]> {
-  const posts = await getCollection('blog', ({ data }) => {
-    // In production environment, filter out drafts
-    return import.meta.env.PROD ? data.draft !== true : true;
-  });
-
-  // Sort by date
-  const sortedPosts = posts.sort((a: BlogPost, b: BlogPost) => {
-    return new Date(b.data.date).getTime() - new Date(a.data.date).getTime();
-  });
-
-  return sortedPosts;
+  return await queryPosts();
 }
 
 /**
@@ -90,38 +90,39 @@ export async function getPostsBySticky(): Promise<{
 }
 
 /**
- * Get post count (excluding drafts in production)
+ * Get post count (excluding drafts and scheduled posts in production)
  */
 export async function getPostCount() {
-  const posts = await getCollection('blog', ({ data }) => {
-    // In production environment, filter out drafts
-    return import.meta.env.PROD ? data.draft !== true : true;
-  });
-  return posts?.length ?? 0;
+  const { posts } = await getPostIndex();
+  return posts.length;
 }
 
 /**
- * Get all posts under a category
- * @param categoryName Category name
+ * Get all posts under a category, including its subcategories
+ * @param category Full category path (e.g. ['notes', 'frontend']) or a root category name
  * @returns Article list
  */
-export async function getPostsByCategory(categoryName: string): Promise<BlogPost[]> {
-  const posts = await getSortedPosts();
-  return posts.filter((post) => {
-    const { categories } = post.data;
-    if (!categories?.length) return false;
-
-    const firstCategory = categories[0];
-    // Handle two types of category formats
-    if (Array.isArray(firstCategory)) {
-      // ['notes', 'algorithm']
-      return firstCategory.includes(categoryName);
-    } else if (typeof firstCategory === 'string') {
-      // 'tools'
-      return firstCategory === categoryName;
-    }
-    return false;
-  });
+export async function getPostsByCategory(category: string | string[]): Promise<BlogPost[]> {
+  return await queryPostsByCategoryPath(getCategoryArr(category));
+}
+
+/**
+ * Get all posts under a category path, including its subcategories
+ * The whole path must match, so same-named subcategories under different parents stay apart
+ * @param categoryNames Category path, e.g. ['notes', 'frontend']
+ * @returns Article list
+ */
+export async function getPostsByCategoryPath(categoryNames: string[]): Promise<BlogPost[]> {
+  return await queryPostsByCategoryPath(categoryNames);
+}
+
+/**
+ * Get all posts with a tag (case-insensitive)
+ * @param tag Tag name
+ * @returns Article list
+ */
+export async function getPostsByTag(tag: string): Promise<BlogPost[]> {
+  return await queryPostsByTag(tag);
 }
 
 /**
@@ -173,15 +174,20 @@ export async function getRandomPosts(count: number = 10): Promise<BlogPost[]> {
 }
 
 /**
- * Get all posts belonging to the post's series (based on deepest category)
+ * Get all posts belonging to the post's series
+ * Uses the `series` frontmatter field when present, otherwise the deepest category
  * @param post Current post
- * @returns Series article list (sorted by date, newest first)
+ * @returns Series article list (see sortSeriesPosts for the order)
  */
 export async function getSeriesPosts(post: BlogPost): Promise<BlogPost[]> {
-  const lastCategory = getPostLastCategory(post);
-  if (!lastCategory.name) return [];
+  if (post.data.series) {
+    return await queryPostsBySeries(post.data.series, getPostLocale(post));
+  }
 
-  return await getPostsByCategory(lastCategory.name);
+  const categoryPath = getCategoryArr(post.data.categories?.[0]);
+  if (!categoryPath.length) return [];
+
+  return sortSeriesPosts(await getPostsByCategoryPath(categoryPath));
 }
 
 /**
@@ -205,34 +211,14 @@ export async function getAdjacentSeriesPosts(currentPost: BlogPost): Promise<{
     return { prevPost: null, nextPost: null };
   }
 
-  // Because posts are sorted by date in descending order (newest first)
-  // prevPost is a newer post (index - 1)
-  // nextPost is an older post (index + 1)
+  // Ordered series are in reading order, prevPost is the previous part (index - 1), nextPost the next one (index + 1)
+  // Other series are sorted newest first, so prevPost is newer and nextPost is older
   const prevPost = currentIndex > 0 ? seriesPosts[currentIndex - 1] : null;
   const nextPost = currentIndex < seriesPosts.length - 1 ? seriesPosts[currentIndex + 1] : null;
 
   return { prevPost, nextPost };
 }
 
-/**
- * Check if an article belongs to a specific category
- * @param post Post
- * @param categoryName Category name
- * @returns Whether it belongs to this category
- */
-function isPostInCategory(post: BlogPost, categoryName: string): boolean {
-  const { categories } = post.data;
-  if (!categories?.length) return false;
-
-  const firstCategory = categories[0];
-  if (Array.isArray(firstCategory)) {
-    return firstCategory.includes(categoryName);
-  } else if (typeof firstCategory === 'string') {
-    return firstCategory === categoryName;
-  }
-  return false;
-}
-
 // =============================================================================
 // Featured Series Functions
 // =============================================================================
@@ -264,7 +250,20 @@ export async function getPostsBySeriesSlug(slug: string): Promise<BlogPost[]> {
   const series = getSeriesBySlug(slug);
   if (!series) return [];
 
-  return await getPostsByCategory(series.categoryName);
+  return await getPostsByCategoryPath(getSeriesCategoryPath(series));
+}
+
+/**
+ * Get the category path of a Featured Series
+ * `categoryName` is a root category name or a '/'-separated path, e.g. 'notes/weekly'
+ * @param series Series configuration
+ * @returns Category names from the root
+ */
+export function getSeriesCategoryPath(series: FeaturedSeriesItem): string[] {
+  return series.categoryName
+    .split('/')
+    .map((name) => name.trim())
+    .filter(Boolean);
 }
 
 /**
@@ -280,13 +279,13 @@ export function getFeaturedCategoryNames(): string[] {
  * @returns Non-series article list (sorted by date, newest first)
  */
 export async function getNonFeaturedPosts(): Promise<BlogPost[]> {
-  const categoryNames = getFeaturedCategoryNames();
-  if (categoryNames.length === 0) {
+  const categoryPaths = getEnabledSeries().map(getSeriesCategoryPath);
+  if (categoryPaths.length === 0) {
     return await getSortedPosts();
   }
 
   const allPosts = await getSortedPosts();
-  return allPosts.filter((post) => !categoryNames.some((catName) => isPostInCategory(post, catName)));
+  return allPosts.filter((post) => !categoryPaths.some((categoryPath) => isPostInCategory(post, categoryPath)));
 }
 
 /**
@@ -322,7 +321,7 @@ export async function getHomeHighlightedPosts(): Promise<BlogPost[]> {
 
   const posts: BlogPost[] = [];
   for (const series of highlightedSeries) {
-    const seriesPosts = await getPostsByCategory(series.categoryName);
+    const seriesPosts = await getPostsByCategoryPath(getSeriesCategoryPath(series));
     if (seriesPosts[0]) {
       posts.push(seriesPosts[0]);
     }
@@ -341,7 +340,7 @@ export async function getHomePagePosts(): Promise<{
   regularPosts: BlogPost[];
 }> {
   const allPosts = await getSortedPosts();
-  const categoryNames = getFeaturedCategoryNames();
+  const categoryPaths = getEnabledSeries().map(getSeriesCategoryPath);
   const highlightedSeries = getEnabledSeries().filter((series) => series.highlightOnHome !== false);
 
   // Used to track the latest post of each highlighted series
@@ -352,12 +351,12 @@ export async function getHomePagePosts(): Promise<{
 
   // Single pass through all posts
   for (const post of allPosts) {
-    const isFeatured = categoryNames.some((catName) => isPostInCategory(post, catName));
+    const isFeatured = categoryPaths.some((categoryPath) => isPostInCategory(post, categoryPath));
 
     if (isFeatured) {
       // Check if it belongs to a highlighted series
       for (const series of highlightedSeries) {
-        if (isPostInCategory(post, series.categoryName)) {
+        if (isPostInCategory(post, getSeriesCategoryPath(series))) {
           // Only keep the latest post of each series (first one, as they are sorted)
           if (!seriesLatestMap.has(series.categoryName)) {
             seriesLatestMap.set(series.categoryName, post);
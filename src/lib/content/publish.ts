@@ -0,0 +1,31 @@
+/**
+ * Post publishing rules shared by every collection query
+ */
+
+import type { BlogSchema } from 'types/blog';
+
+/**
+ * Get the date a post goes live (`publishAt` when set, otherwise `date`)
+ */
+export function getPublishDate(data: Pick<BlogSchema, 'date' | 'publishAt'>): Date {
+  return data.publishAt ?? data.date;
+}
+
+/**
+ * Check if a post is scheduled for a future build
+ * @param data Post frontmatter
+ * @param now Reference time, defaults to build time
+ */
+export function isScheduledPost(data: Pick<BlogSchema, 'date' | 'publishAt'>, now: Date = new Date()): boolean {
+  return getPublishDate(data).getTime() > now.getTime();
+}
+
+/**
+ * Collection filter that hides drafts and scheduled posts in production
+ * Both stay visible in development so they can be previewed
+ * @example getCollection('blog', isPublishedEntry)
+ */
+export function isPublishedEntry({ data }: { data: BlogSchema }): boolean {
+  if (!import.meta.env.PROD) return true;
+  return data.draft !== true && !isScheduledPost(data);
+}
@@ -2,6 +2,7 @@
  * Similarity-based post retrieval utilities
  */
 
+import { getLocalizedSlug } from '@lib/i18n';
 import type { BlogPost } from 'types/blog';
 
 interface SimilarPost {
@@ -26,7 +27,7 @@ try {
 
 /**
  * Get related post slugs for a given post
- * @param currentSlug Current post's slug (from post.data.link or post.slug)
+ * @param currentSlug Current post's localized slug (see getLocalizedSlug)
  * @param count Number of related posts to return
  * @returns Array of similar post data with similarity scores
  */
@@ -45,7 +46,7 @@ export function getRelatedPostSlugs(currentSlug: string, count: number = 5): Sim
  */
 export function getRelatedPosts(currentPost: BlogPost, allPosts: BlogPost[], count: number = 5): BlogPost[] {
   try {
-    const currentSlug = currentPost.data.link ?? currentPost.slug;
+    const currentSlug = getLocalizedSlug(currentPost);
     const relatedSlugs = getRelatedPostSlugs(currentSlug, count);
 
     if (!relatedSlugs.length) {
@@ -55,8 +56,7 @@ export function getRelatedPosts(currentPost: BlogPost, allPosts: BlogPost[], cou
     // Create a map from slug to full post object
     const slugToPost = new Map<string, BlogPost>();
     for (const post of allPosts) {
-      const slug = post.data.link ?? post.slug;
-      slugToPost.set(slug, post);
+      slugToPost.set(getLocalizedSlug(post), post);
     }
 
     // Map related slugs to full posts, maintaining similarity order
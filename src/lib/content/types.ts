@@ -4,10 +4,13 @@
 
 export type Category = {
   name: string;
+  /** Full category path from the root, e.g. ['Notes', 'Backend', 'Data Structure'] */
+  path: string[];
   children?: Category[];
 };
 
 export type CategoryListResult = {
   categories: Category[];
+  /** Post counts keyed by full category path (see getCategoryKey), including subcategories */
   countMap: { [key: string]: number };
 };
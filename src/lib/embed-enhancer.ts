@@ -0,0 +1,36 @@
+/**
+ * Embed Enhancer
+ * Swaps the click-to-load placeholders rendered by the link embed providers for their iframes
+ */
+
+/**
+ * Replace a placeholder's content with the provider iframe
+ */
+function loadEmbed(facade: HTMLElement): void {
+  const { embedSrc, embedAllow, embedTitle } = facade.dataset;
+  if (!embedSrc) return;
+
+  const iframe = document.createElement('iframe');
+  iframe.src = embedSrc;
+  iframe.title = embedTitle ?? 'Embedded content';
+  iframe.allow = embedAllow ?? '';
+  iframe.allowFullscreen = true;
+  iframe.referrerPolicy = 'strict-origin-when-cross-origin';
+  iframe.className = 'embed-facade-frame';
+
+  facade.replaceChildren(iframe);
+  facade.dataset.loaded = 'true';
+}
+
+/**
+ * Bind the load buttons of all embed placeholders
+ */
+export function enhanceEmbeds(container: Element): void {
+  container.querySelectorAll<HTMLElement>('.embed-facade:not([data-loaded])').forEach((facade) => {
+    const button = facade.querySelector('.embed-facade-load');
+    if (!button || facade.dataset.enhanced === 'true') return;
+    facade.dataset.enhanced = 'true';
+
+    button.addEventListener('click', () => loadEmbed(facade));
+  });
+}
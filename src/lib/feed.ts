@@ -0,0 +1,308 @@
+/**
+ * Feed utilities
+ *
+ * Builds RSS 2.0, Atom 1.0 and JSON Feed 1.1 responses from the same post data.
+ * Used by the site-wide feeds and the per-category, per-tag and per-series feeds.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import rss from '@astrojs/rss';
+import { feedConfig } from '@constants/feed-config';
+import { defaultLocale } from '@constants/i18n';
+import { getSeriesPath, Routes } from '@constants/router';
+import { siteConfig } from '@constants/site-config';
+import { getCategoryArr, getPostDescriptionWithSummary } from '@lib/content';
+import { getHtmlLang, getLocalizedSlug, getPostLocale } from '@lib/i18n';
+import { isExternalImage } from '@lib/lqip';
+import { routeBuilder } from '@lib/route';
+import { getSanitizeHtml, stripInvalidXmlChars } from '@lib/sanitize';
+import type { BlogPost } from 'types/blog';
+
+const MEDIA_NAMESPACE = 'http://search.yahoo.com/mrss/';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.avif': 'image/avif',
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+export interface FeedOptions {
+  /** Feed title */
+  title: string;
+  /** Feed description */
+  description?: string;
+  /** Site URL (from the endpoint context) */
+  site: URL;
+  /** Posts to include, newest first */
+  posts: BlogPost[];
+  /** Path of the HTML page this feed mirrors (e.g., '/categories/note') */
+  homePath?: string;
+  /** Path of the feed itself (e.g., '/categories/note/rss.xml') */
+  feedPath: string;
+}
+
+interface FeedCover {
+  url: string;
+  type: string;
+  /** File size in bytes (0 when unknown, e.g. external images) */
+  length: number;
+}
+
+interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  date: Date;
+  updated?: Date;
+  summary: string;
+  /** Full article HTML, only present in `full` content mode */
+  content?: string;
+  cover?: FeedCover;
+  categories: string[];
+  tags: string[];
+  language: string;
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/**
+ * Get RSS feed path for a category
+ * @param categoryPath Category path from buildCategoryPath (e.g., '/categories/note/front-end')
+ */
+export function getCategoryFeedPath(categoryPath: string): string {
+  return `${categoryPath}/rss.xml`;
+}
+
+/**
+ * Get RSS feed path for a tag
+ */
+export function getTagFeedPath(tag: string): string {
+  return `${Routes.Tags}/${tag.replace(/\//g, '-')}/rss.xml`;
+}
+
+/**
+ * Get RSS feed path for a featured series
+ * @example getSeriesFeedPath('weekly') => '/weekly/rss.xml'
+ */
+export function getSeriesFeedPath(slug: string): string {
+  return `${getSeriesPath(slug)}/rss.xml`;
+}
+
+// =============================================================================
+// Items
+// =============================================================================
+
+/**
+ * Rewrite relative src/href/srcset URLs to absolute ones
+ * Feed readers render content outside the site, so '/img/a.webp' or '#heading' would break
+ */
+function absolutizeHtmlUrls(html: string, baseUrl: string): string {
+  const resolve = (url: string) => {
+    try {
+      return new URL(url, baseUrl).href;
+    } catch {
+      return url;
+    }
+  };
+
+  return html
+    .replace(/\s(src|href|poster)="([^"]*)"/g, (_, attr: string, url: string) => ` ${attr}="${resolve(url)}"`)
+    .replace(/\ssrcset="([^"]*)"/g, (_, srcset: string) => {
+      const candidates = srcset.split(',').map((candidate) => {
+        const [url, ...descriptors] = candidate.trim().split(/\s+/);
+        return [resolve(url), ...descriptors].join(' ');
+      });
+      return ` srcset="${candidates.join(', ')}"`;
+    });
+}
+
+/**
+ * Resolve post cover metadata for enclosures
+ */
+function getFeedCover(cover: string, site: URL): FeedCover {
+  const pathname = isExternalImage(cover) ? new URL(cover).pathname : cover;
+  const type = IMAGE_MIME_TYPES[path.extname(pathname).toLowerCase()] ?? 'image/jpeg';
+
+  let length = 0;
+  if (!isExternalImage(cover)) {
+    try {
+      length = fs.statSync(path.join(process.cwd(), 'public', cover.replace(/^\/+/, ''))).size;
+    } catch {
+      // Missing local file: keep length unknown rather than failing the feed
+    }
+  }
+
+  return { url: new URL(cover, site).href, type, length };
+}
+
+function toFeedItem(post: BlogPost, site: URL): FeedItem {
+  const locale = getPostLocale(post);
+  const url = new URL(routeBuilder(Routes.Post, post), site).href;
+
+  return {
+    // Slug-based id stays stable when a post moves to another category or route (Atom wraps it in a tag URI)
+    // Translations may share a slug, so the id carries the locale
+    id: getLocalizedSlug(post),
+    title: post.data.title,
+    url,
+    date: post.data.date,
+    updated: post.data.updated,
+    summary: stripInvalidXmlChars(getPostDescriptionWithSummary(post)),
+    content: feedConfig.content === 'full' ? absolutizeHtmlUrls(getSanitizeHtml(post.rendered?.html ?? ''), url) : undefined,
+    cover: feedConfig.includeCover && post.data.cover ? getFeedCover(post.data.cover, site) : undefined,
+    categories: getCategoryArr(post.data.categories?.[0]),
+    tags: post.data.tags ?? [],
+    language: getHtmlLang(locale),
+  };
+}
+
+function getFeedItems({ posts, site }: FeedOptions): FeedItem[] {
+  const limited = feedConfig.limit > 0 ? posts.slice(0, feedConfig.limit) : posts;
+  return limited.map((post) => toFeedItem(post, site));
+}
+
+// =============================================================================
+// Renderers
+// =============================================================================
+
+/**
+ * Escape text for XML element content and attributes
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Create an RSS 2.0 response
+ */
+export function createRssResponse(options: FeedOptions): Promise<Response> {
+  const { title, description, site } = options;
+
+  return rss({
+    title,
+    description: description || 'No description',
+    site,
+    trailingSlash: false,
+    stylesheet: '/rss/feed.xsl', // https://docs.astro.build/en/recipes/rss/#adding-a-stylesheet
+    xmlns: feedConfig.includeCover ? { media: MEDIA_NAMESPACE } : undefined,
+    items: getFeedItems(options).map((item) => ({
+      title: item.title,
+      pubDate: item.date,
+      description: item.summary,
+      link: item.url,
+      content: item.content,
+      // Categories and tags are prefixed so the XSL stylesheet can tell them apart
+      categories: [...item.categories.map((cat) => `category:${cat}`), ...item.tags.map((tag) => `tag:${tag}`)],
+      enclosure: item.cover,
+      customData: [
+        `<guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+        item.cover &&
+          `<media:content url="${escapeXml(item.cover.url)}" type="${item.cover.type}" medium="image"${item.cover.length ? ` fileSize="${item.cover.length}"` : ''} />`,
+      ]
+        .filter(Boolean)
+        .join(''),
+    })),
+  });
+}
+
+/**
+ * Build an RFC 4151 tag URI for an Atom entry id
+ * Dated with the publish year, when the post was minted under this domain
+ * @see https://datatracker.ietf.org/doc/html/rfc4151
+ * @example getTagUri(site, item) => 'tag:example.com,2024:zh/hello-world'
+ */
+function getTagUri(site: URL, item: FeedItem): string {
+  return `tag:${site.hostname},${item.date.getUTCFullYear()}:${encodeURI(item.id)}`;
+}
+
+/**
+ * Create an Atom 1.0 response
+ * @see https://datatracker.ietf.org/doc/html/rfc4287
+ */
+export function createAtomResponse(options: FeedOptions): Response {
+  const { title, description, site, homePath = '/', feedPath } = options;
+  const items = getFeedItems(options);
+  const updated = items.reduce<Date>((latest, item) => {
+    const date = item.updated ?? item.date;
+    return date > latest ? date : latest;
+  }, new Date(0));
+  const author = siteConfig.author ?? siteConfig.name;
+
+  const entries = items
+    .map(
+      (item) => `  <entry>
+    <id>${escapeXml(getTagUri(site, item))}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+    <published>${item.date.toISOString()}</published>
+    <updated>${(item.updated ?? item.date).toISOString()}</updated>
+    <summary>${escapeXml(item.summary)}</summary>
+    ${item.content ? `<content type="html" xml:lang="${item.language}">${escapeXml(item.content)}</content>` : ''}
+    ${item.cover ? `<link rel="enclosure" type="${item.cover.type}" length="${item.cover.length}" href="${escapeXml(item.cover.url)}" />` : ''}
+${[...item.categories, ...item.tags].map((term) => `    <category term="${escapeXml(term)}" />`).join('\n')}
+  </entry>`,
+    )
+    .join('\n');
+
+  const xml = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(new URL(feedPath, site).href)}</id>
+  <title>${escapeXml(title)}</title>
+  ${description ? `<subtitle>${escapeXml(description)}</subtitle>` : ''}
+  <link rel="alternate" type="text/html" href="${escapeXml(new URL(homePath, site).href)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(new URL(feedPath, site).href)}" />
+  <updated>${updated.toISOString()}</updated>
+  <author><name>${escapeXml(author)}</name></author>
+  ${siteConfig.avatar ? `<icon>${escapeXml(new URL(siteConfig.avatar, site).href)}</icon>` : ''}
+${entries}
+</feed>
+`;
+
+  return new Response(xml, {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+}
+
+/**
+ * Create a JSON Feed 1.1 response
+ * @see https://www.jsonfeed.org/version/1.1/
+ */
+export function createJsonFeedResponse(options: FeedOptions): Response {
+  const { title, description, site, homePath = '/', feedPath } = options;
+  const author = siteConfig.author ?? siteConfig.name;
+
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title,
+    description,
+    home_page_url: new URL(homePath, site).href,
+    feed_url: new URL(feedPath, site).href,
+    icon: siteConfig.avatar ? new URL(siteConfig.avatar, site).href : undefined,
+    authors: [{ name: author, url: site.href }],
+    language: getHtmlLang(defaultLocale),
+    items: getFeedItems(options).map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      // JSON Feed requires content_html or content_text
+      ...(item.content ? { content_html: item.content } : { content_text: item.summary }),
+      summary: item.summary,
+      image: item.cover?.url,
+      date_published: item.date.toISOString(),
+      date_modified: item.updated?.toISOString(),
+      tags: [...item.categories, ...item.tags],
+      language: item.language,
+    })),
+  };
+
+  return new Response(JSON.stringify(feed), {
+    headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+  });
+}
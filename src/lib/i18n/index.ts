@@ -0,0 +1,156 @@
+/**
+ * Internationalization utilities
+ *
+ * Resolves post locales, locale-prefixed paths, translation groups and UI strings.
+ */
+
+import { defaultLocale, localeCodes, locales } from '@constants/i18n';
+import type { LocaleConfig } from '@lib/config/types';
+import type { BlogPost } from 'types/blog';
+import { type UIStringKey, uiStrings } from './ui';
+
+export type { UIStringKey };
+
+/**
+ * Get locale config by code, falling back to the default locale
+ */
+export function getLocaleConfig(locale: string = defaultLocale): LocaleConfig {
+  return locales.find((item) => item.code === locale) ?? locales.find((item) => item.code === defaultLocale) ?? locales[0];
+}
+
+/**
+ * Get the BCP 47 tag used for `<html lang>` and hreflang
+ * @example getHtmlLang('zh') => 'zh-CN'
+ */
+export function getHtmlLang(locale: string = defaultLocale): string {
+  const config = getLocaleConfig(locale);
+  return config.htmlLang ?? config.code;
+}
+
+/**
+ * Get the locale of a post
+ * Posts without `lang` belong to the default locale
+ * @throws When the post declares a locale that is not configured
+ */
+export function getPostLocale(post: BlogPost): string {
+  const lang = post.data.lang?.trim();
+  if (!lang) return defaultLocale;
+
+  if (!localeCodes.has(lang)) {
+    throw new Error(
+      `Post "${post.data.link ?? post.slug}" has lang "${lang}", which is not listed in i18n.locales. ` +
+        `Available locales: ${Array.from(localeCodes).join(', ')}.`,
+    );
+  }
+  return lang;
+}
+
+/**
+ * Get URL prefix for a locale ('' for the default locale)
+ * @example getLocalePrefix('zh') => '/zh'
+ */
+export function getLocalePrefix(locale: string): string {
+  return locale === defaultLocale ? '' : `/${locale}`;
+}
+
+/**
+ * Extract the locale from a URL pathname
+ * @example getLocaleFromPath('/zh/post/hello') => 'zh'
+ * @example getLocaleFromPath('/post/hello') => defaultLocale
+ */
+export function getLocaleFromPath(pathname: string): string {
+  const firstSegment = pathname.split('/').filter(Boolean)[0];
+  return firstSegment && firstSegment !== defaultLocale && localeCodes.has(firstSegment) ? firstSegment : defaultLocale;
+}
+
+/**
+ * Remove the locale prefix from a URL pathname
+ * @example stripLocalePrefix('/zh/post/hello') => '/post/hello'
+ */
+export function stripLocalePrefix(pathname: string): string {
+  const locale = getLocaleFromPath(pathname);
+  if (locale === defaultLocale) return pathname;
+  return pathname.slice(locale.length + 1) || '/';
+}
+
+/**
+ * Get the key identifying a single language version of a post
+ * Translations may share a slug, so non-default locales are prefixed.
+ * Keys feed ids, summaries.json and similarities.json use this format
+ * @example getLocalizedSlug(zhHelloWorld) => 'zh/hello-world'
+ */
+export function getLocalizedSlug(post: BlogPost): string {
+  const locale = getPostLocale(post);
+  const slug = post.data.link ?? post.slug;
+  return locale === defaultLocale ? slug : `${locale}/${slug}`;
+}
+
+/**
+ * Get the key shared by a post and all of its translations
+ * A translation points at its source post via `translationOf`, the source uses its own slug
+ */
+export function getTranslationKey(post: BlogPost): string {
+  return post.data.translationOf ?? post.data.link ?? post.slug;
+}
+
+/**
+ * Get all language versions of a post (including the post itself), in locale config order
+ * @param post Current post
+ * @param allPosts All available posts
+ */
+export function getPostTranslations(post: BlogPost, allPosts: BlogPost[]): BlogPost[] {
+  const key = getTranslationKey(post);
+  const versions = new Map<string, BlogPost>();
+
+  for (const candidate of allPosts) {
+    if (getTranslationKey(candidate) !== key) continue;
+    const locale = getPostLocale(candidate);
+    // Keep the current post if two versions claim the same locale
+    if (!versions.has(locale) || candidate.id === post.id) {
+      versions.set(locale, candidate);
+    }
+  }
+
+  return locales.flatMap((locale) => {
+    const version = versions.get(locale.code);
+    return version ? [version] : [];
+  });
+}
+
+/**
+ * Get the category display name for a locale
+ * Falls back to the category name itself when no translation is configured
+ */
+export function getCategoryLabel(name: string, locale: string = defaultLocale): string {
+  return getLocaleConfig(locale).categoryLabels?.[name] ?? name;
+}
+
+/**
+ * Resolve a UI string dictionary for a locale
+ * Lookup order: config overrides > exact locale > base language (zh-tw → zh) > English
+ */
+function getDictionary(locale: string): Record<string, string> {
+  const dictionaries = uiStrings as Record<string, Record<string, string>>;
+  const baseLanguage = locale.split('-')[0];
+  return {
+    ...uiStrings.en,
+    ...dictionaries[baseLanguage],
+    ...dictionaries[locale],
+    ...getLocaleConfig(locale).strings,
+  };
+}
+
+/**
+ * Create a translate function for a locale
+ * @example
+ * const t = getTranslations('zh');
+ * t('list.totalArticles', { count: 3 }) => '共 3 篇文章'
+ */
+export function getTranslations(locale: string = defaultLocale) {
+  const dictionary = getDictionary(locale);
+  return (key: UIStringKey, params?: Record<string, string | number>): string => {
+    const template = dictionary[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+  };
+}
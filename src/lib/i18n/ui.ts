@@ -0,0 +1,46 @@
+/**
+ * Built-in UI strings per locale
+ *
+ * Keys are shared across locales; `{name}` placeholders are interpolated by `t()`.
+ * Locales without a dictionary fall back to English, and individual strings can be
+ * overridden via `i18n.locales[].strings` in config/site.yaml.
+ */
+
+export const uiStrings = {
+  en: {
+    'nav.home': 'Home',
+    'nav.backToHome': 'Back to Home',
+    'post.publishedOn': 'Published on',
+    'post.updatedOn': 'Updated on',
+    'post.words': '{count} words',
+    'post.goToCategory': 'Go to {name} category',
+    'post.revisionHistory': 'Revision history',
+    'post.revisionCount': '{count} revisions',
+    'post.revisionCountOne': '{count} revision',
+    'list.totalArticles': 'Total {count} articles',
+    'list.articleCount': '{count} articles',
+    'list.totalTags': 'Total {count} tags',
+    'list.empty': 'No articles published yet～',
+    'comment.prompt': 'If you enjoyed this, leave a comment～',
+    'language.switch': 'Switch language',
+  },
+  zh: {
+    'nav.home': '首页',
+    'nav.backToHome': '返回首页',
+    'post.publishedOn': '发表于',
+    'post.updatedOn': '更新于',
+    'post.words': '{count} 字',
+    'post.goToCategory': '前往分类 {name}',
+    'post.revisionHistory': '修订历史',
+    'post.revisionCount': '{count} 次修订',
+    'post.revisionCountOne': '{count} 次修订',
+    'list.totalArticles': '共 {count} 篇文章',
+    'list.articleCount': '{count} 篇',
+    'list.totalTags': '共 {count} 个标签',
+    'list.empty': '还没有发布文章～',
+    'comment.prompt': '喜欢的话，留下你的评论吧～',
+    'language.switch': '切换语言',
+  },
+} as const;
+
+export type UIStringKey = keyof (typeof uiStrings)['en'];
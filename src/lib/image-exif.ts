@@ -0,0 +1,89 @@
+/**
+ * EXIF metadata of local images, read at build time with sharp
+ *
+ * Shown under images of posts with `exif: true` in frontmatter (photography posts).
+ * Used by the rehype image plugin (loaded from astro.config.mjs), so only relative imports are allowed here.
+ */
+
+import exifReader from 'exif-reader';
+import sharp from 'sharp';
+
+export interface ImageExif {
+  /** Camera make and model, e.g. "FUJIFILM X-T5" */
+  camera?: string;
+  lens?: string;
+  /** e.g. "35mm" */
+  focalLength?: string;
+  /** e.g. "f/2.8" */
+  aperture?: string;
+  /** e.g. "1/250s" */
+  exposure?: string;
+  /** e.g. "ISO 200" */
+  iso?: string;
+}
+
+const exifCache = new Map<string, Promise<ImageExif | null>>();
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+function formatExposure(seconds: number): string {
+  if (seconds >= 1) return `${formatNumber(seconds)}s`;
+  return `1/${Math.round(1 / seconds)}s`;
+}
+
+/**
+ * Camera model, prefixed with the make unless the model already includes it (e.g. "Canon EOS R5")
+ */
+function formatCamera(make?: string, model?: string): string | undefined {
+  const cleanMake = make?.trim();
+  const cleanModel = model?.trim();
+  if (!cleanModel) return cleanMake || undefined;
+  if (!cleanMake || cleanModel.toLowerCase().startsWith(cleanMake.split(' ')[0].toLowerCase())) return cleanModel;
+  return `${cleanMake} ${cleanModel}`;
+}
+
+function parseExif(buffer: Buffer): ImageExif | null {
+  const { Image: image = {}, Photo: photo = {} } = exifReader(buffer);
+  const iso = Array.isArray(photo.ISOSpeedRatings) ? photo.ISOSpeedRatings[0] : photo.ISOSpeedRatings;
+
+  const exif: ImageExif = {
+    camera: formatCamera(image.Make, image.Model),
+    lens: photo.LensModel?.trim() || undefined,
+    focalLength: photo.FocalLength ? `${formatNumber(photo.FocalLength)}mm` : undefined,
+    aperture: photo.FNumber ? `f/${formatNumber(photo.FNumber)}` : undefined,
+    exposure: photo.ExposureTime ? formatExposure(photo.ExposureTime) : undefined,
+    iso: typeof iso === 'number' && iso > 0 ? `ISO ${iso}` : undefined,
+  };
+  return Object.values(exif).some(Boolean) ? exif : null;
+}
+
+/**
+ * Read camera, lens and exposure settings of an image
+ * @param file Absolute path of the image
+ * @returns null if the image has no (usable) EXIF data or can't be read
+ */
+export function readImageExif(file: string): Promise<ImageExif | null> {
+  let exif = exifCache.get(file);
+  if (!exif) {
+    exif = sharp(file)
+      .metadata()
+      .then((metadata) => (metadata.exif ? parseExif(metadata.exif) : null))
+      .catch((error) => {
+        console.warn(`[EXIF] Failed to read ${file}:`, error instanceof Error ? error.message : error);
+        return null;
+      });
+    exifCache.set(file, exif);
+  }
+  return exif;
+}
+
+/**
+ * EXIF fields in display order: camera, lens, then the exposure triangle
+ */
+export function formatImageExif(exif: ImageExif): string[] {
+  return [exif.camera, exif.lens, exif.focalLength, exif.aperture, exif.exposure, exif.iso].filter((value): value is string =>
+    Boolean(value),
+  );
+}
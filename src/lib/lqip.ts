@@ -1,46 +1,125 @@
 /**
  * LQIP (Low Quality Image Placeholder) utilities
  *
- * Provides functions to get LQIP gradient backgrounds for images.
+ * Provides functions to get LQIP backgrounds for images under public/img and images co-located with posts.
+ * Placeholders are generated by generateLqips.ts in the mode set by content.lqipMode:
+ * a three-color gradient (always available), BlurHash, ThumbHash or a tiny base64 WebP.
+ *
+ * Also used by the rehype image plugin (loaded from astro.config.mjs), so only relative imports are allowed here.
  */
 
+import { decode as decodeBlurHash } from 'blurhash';
+import { rgbaToDataURL, thumbHashToDataURL } from 'thumbhash';
+import type { LqipMode } from './config/types';
+
+export interface LqipEntry {
+  /** Content hash of the source image, unchanged images are skipped when regenerating */
+  hash: string;
+  /** Three hex colors without '#' (top-left, top-right, bottom-right), generated in every mode */
+  colors: string;
+  /** Source image size */
+  width: number;
+  height: number;
+  /** Mode of `value`, missing in gradient mode */
+  mode?: Exclude<LqipMode, 'gradient'>;
+  /** BlurHash, base64 ThumbHash or base64 WebP */
+  value?: string;
+}
+
+/** Entries keyed by path relative to /img/ (cover/1.webp) or to the project root (src/content/blog/...) */
+export type LqipMap = Record<string, LqipEntry | string>;
+
+/** Width of the decoded BlurHash image, the height follows the source aspect ratio */
+const BLURHASH_DECODE_WIDTH = 32;
+
 // Import LQIP data generated by generateLqips.ts
-let lqips: Record<string, string> = {};
+let lqips: LqipMap = {};
 
 try {
-  const lqipData = await import('@assets/lqips.json');
-  lqips = lqipData.default as Record<string, string>;
+  const lqipData = await import('../assets/lqips.json');
+  lqips = lqipData.default as LqipMap;
 } catch {
   // File doesn't exist yet, will be generated by running pnpm generate:lqips
 }
 
+/** Decoded BlurHash / ThumbHash data URLs, by key */
+const dataUrlCache = new Map<string, string | undefined>();
+
 /**
  * Convert image path to LQIP key
- * @param imagePath Full path like /img/cover/1.webp
- * @returns Short key like cover/1.webp
+ * @param imagePath Full path like /img/cover/1.webp, or a project-relative path like src/content/blog/note/a.webp
+ * @returns Short key like cover/1.webp, project-relative paths are kept
  */
 function imagePathToKey(imagePath: string): string {
   return imagePath.replace(/^\/img\//, '');
 }
 
+function getEntry(imagePath: string): LqipEntry | undefined {
+  const entry = lqips[imagePathToKey(imagePath)];
+  // Entries of the original format are the compact colors only
+  return typeof entry === 'string' ? { hash: '', colors: entry, width: 0, height: 0 } : entry;
+}
+
 /**
- * Get the LQIP gradient CSS for an image
+ * Get the LQIP colors for an image
  * @param imagePath Image path (e.g., /img/cover/1.webp)
- * @returns CSS gradient string or undefined if not found
+ * @returns Three hex colors (top-left → bottom-right) or undefined if not found
  */
-export function getLqipGradient(imagePath: string): string | undefined {
-  const key = imagePathToKey(imagePath);
-  const compact = lqips[key];
+export function getLqipColors(imagePath: string): [string, string, string] | undefined {
+  const compact = getEntry(imagePath)?.colors;
   if (compact?.length !== 18) return undefined;
 
   // Decode compact format: "aabbccddeeff" → 3 hex colors
-  const c1 = `#${compact.slice(0, 6)}`;
-  const c2 = `#${compact.slice(6, 12)}`;
-  const c3 = `#${compact.slice(12, 18)}`;
+  return [`#${compact.slice(0, 6)}`, `#${compact.slice(6, 12)}`, `#${compact.slice(12, 18)}`];
+}
+
+/**
+ * Get the LQIP gradient CSS for an image
+ * @param imagePath Image path (e.g., /img/cover/1.webp)
+ * @returns CSS gradient string or undefined if not found
+ */
+export function getLqipGradient(imagePath: string): string | undefined {
+  const colors = getLqipColors(imagePath);
+  if (!colors) return undefined;
 
+  const [c1, c2, c3] = colors;
   return `linear-gradient(135deg, ${c1} 0%, ${c2} 50%, ${c3} 100%)`;
 }
 
+/**
+ * Decode a BlurHash / ThumbHash / WebP placeholder to an image data URL
+ */
+function toDataUrl(entry: LqipEntry): string | undefined {
+  const { mode, value, width, height } = entry;
+  if (!value) return undefined;
+
+  try {
+    if (mode === 'webp') return `data:image/webp;base64,${value}`;
+    if (mode === 'thumbhash') return thumbHashToDataURL(Buffer.from(value, 'base64'));
+    if (mode === 'blurhash') {
+      const w = BLURHASH_DECODE_WIDTH;
+      const h = width && height ? Math.max(1, Math.round((w * height) / width)) : w;
+      return rgbaToDataURL(w, h, decodeBlurHash(value, w, h));
+    }
+  } catch (error) {
+    console.warn(`[LQIP] Failed to decode ${mode} placeholder:`, error);
+  }
+  return undefined;
+}
+
+/**
+ * Get the LQIP placeholder image (BlurHash / ThumbHash / WebP) as a data URL
+ * @returns undefined in gradient mode or if not found
+ */
+export function getLqipDataUrl(imagePath: string): string | undefined {
+  const key = imagePathToKey(imagePath);
+  if (!dataUrlCache.has(key)) {
+    const entry = getEntry(imagePath);
+    dataUrlCache.set(key, entry ? toDataUrl(entry) : undefined);
+  }
+  return dataUrlCache.get(key);
+}
+
 /**
  * Check if an image path is external (starts with http)
  */
@@ -50,12 +129,16 @@ export function isExternalImage(imagePath: string): boolean {
 
 /**
  * Get LQIP style for an image
- * Returns background-image style with gradient
+ * Returns the placeholder image (covering the element) or the gradient as background-image
  */
 export function getLqipStyle(imagePath: string): string | undefined {
   if (isExternalImage(imagePath)) {
     return undefined;
   }
+  const dataUrl = getLqipDataUrl(imagePath);
+  if (dataUrl) {
+    return `background-image:url("${dataUrl}");background-size:cover;background-position:center`;
+  }
   const gradient = getLqipGradient(imagePath);
   return gradient ? `background-image:${gradient}` : undefined;
 }
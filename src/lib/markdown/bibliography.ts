@@ -0,0 +1,414 @@
+/**
+ * Bibliography loading and formatting for remark-citations
+ * Reads BibTeX (.bib) and CSL-JSON (.json) files into CSL items and formats them as numbered references
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  /** Institutional or single-field name, e.g. 'World Health Organization' */
+  literal?: string;
+}
+
+export interface CslDate {
+  'date-parts'?: (number | string)[][];
+  literal?: string;
+}
+
+/**
+ * Subset of CSL-JSON used for formatting
+ * @see https://citeproc-js.readthedocs.io/en/latest/csl-json/markup.html
+ */
+export interface CslItem {
+  id: string;
+  type?: string;
+  title?: string;
+  author?: CslName[];
+  'container-title'?: string;
+  publisher?: string;
+  volume?: string | number;
+  issue?: string | number;
+  page?: string;
+  issued?: CslDate;
+  DOI?: string;
+  URL?: string;
+}
+
+export type Bibliography = Map<string, CslItem>;
+
+// ============================================================================
+// BibTeX Parsing
+// ============================================================================
+
+const BIBTEX_TYPE_MAP: Record<string, string> = {
+  article: 'article-journal',
+  inproceedings: 'paper-conference',
+  conference: 'paper-conference',
+  book: 'book',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  techreport: 'report',
+  report: 'report',
+  online: 'webpage',
+};
+
+const BIBTEX_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** LaTeX accent command → combining character */
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308',
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+};
+
+/** LaTeX letter commands, e.g. {\L}ukasz */
+const LATEX_LETTERS: Record<string, string> = {
+  L: 'Ł',
+  l: 'ł',
+  O: 'Ø',
+  o: 'ø',
+  ss: 'ß',
+  ae: 'æ',
+  AE: 'Æ',
+  aa: 'å',
+  AA: 'Å',
+  i: 'ı',
+};
+
+/**
+ * Convert the LaTeX markup commonly found in BibTeX values to plain text
+ */
+function cleanLatex(value: string): string {
+  return value
+    .replace(/\\([`'^"~=.])\s*\{?\\?([a-zA-Z])\}?/g, (_, accent: string, char: string) => char + LATEX_ACCENTS[accent])
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\(L|l|O|o|ss|ae|AE|aa|AA|i)\b\s*/g, (_, letter: string) => LATEX_LETTERS[letter])
+    .replace(/\\[a-zA-Z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC');
+}
+
+/**
+ * Split a string on a separator that is not inside braces
+ */
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (depth === 0) {
+      const match = value.slice(i).match(separator);
+      if (match?.index === 0) {
+        parts.push(value.slice(start, i));
+        i += match[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a BibTeX name list: 'Doe, John and Jane Roe and {World Health Organization}'
+ */
+function parseBibtexNames(value: string): CslName[] {
+  return splitTopLevel(value, /^\s+and\s+/i).map((name) => {
+    if (/^\{.*\}$/.test(name)) return { literal: cleanLatex(name) };
+
+    const commaParts = splitTopLevel(name, /^,/);
+    if (commaParts.length > 1) {
+      // 'Last, First' or 'Last, Jr, First'
+      return { family: cleanLatex(commaParts[0]), given: cleanLatex(commaParts[commaParts.length - 1]) };
+    }
+
+    // 'First Middle Last'
+    const words = splitTopLevel(name, /^\s+/);
+    const family = words.pop() ?? name;
+    return words.length ? { family: cleanLatex(family), given: cleanLatex(words.join(' ')) } : { literal: cleanLatex(family) };
+  });
+}
+
+function bibtexEntryToCsl(type: string, key: string, fields: Record<string, string>): CslItem {
+  const item: CslItem = {
+    id: key,
+    type: BIBTEX_TYPE_MAP[type] ?? (fields.url ? 'webpage' : 'document'),
+  };
+
+  if (fields.title) item.title = cleanLatex(fields.title);
+  if (fields.author) item.author = parseBibtexNames(fields.author);
+
+  const container = fields.journal ?? fields.journaltitle ?? fields.booktitle;
+  if (container) item['container-title'] = cleanLatex(container);
+
+  const publisher = fields.publisher ?? fields.institution ?? fields.school ?? fields.organization;
+  if (publisher) item.publisher = cleanLatex(publisher);
+
+  if (fields.volume) item.volume = cleanLatex(fields.volume);
+  if (fields.number) item.issue = cleanLatex(fields.number);
+  if (fields.pages) item.page = cleanLatex(fields.pages);
+  if (fields.doi) item.DOI = fields.doi.trim();
+  if (fields.url) item.URL = fields.url.trim();
+
+  const year = fields.year ?? fields.date?.slice(0, 4);
+  if (year) {
+    const month = BIBTEX_MONTHS.indexOf(fields.month?.trim().slice(0, 3).toLowerCase() ?? '') + 1;
+    item.issued = { 'date-parts': [month ? [cleanLatex(year), month] : [cleanLatex(year)]] };
+  }
+
+  return item;
+}
+
+/**
+ * Parse BibTeX source into CSL items
+ * Supports braced and quoted values, `#` concatenation and @string macros; @comment and @preamble are skipped
+ */
+export function parseBibtex(source: string): CslItem[] {
+  const items: CslItem[] = [];
+  const macros: Record<string, string> = {};
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  /** Read a `{...}` or `(...)` group starting at source[pos], returning its inner text */
+  const readBalanced = (open: string, close: string): string => {
+    let depth = 0;
+    const start = pos + 1;
+    for (; pos < source.length; pos++) {
+      if (source[pos] === '\\') pos++;
+      else if (source[pos] === open) depth++;
+      else if (source[pos] === close && --depth === 0) break;
+    }
+    return source.slice(start, pos++);
+  };
+
+  /** Read a `"..."` value starting at source[pos]; quotes inside braces don't end it */
+  const readQuoted = (): string => {
+    let depth = 0;
+    const start = ++pos;
+    for (; pos < source.length; pos++) {
+      if (source[pos] === '{') depth++;
+      else if (source[pos] === '}') depth--;
+      else if (source[pos] === '"' && depth === 0) break;
+    }
+    return source.slice(start, pos++);
+  };
+
+  const readValue = (): string => {
+    const parts: string[] = [];
+    while (pos < source.length) {
+      skipWhitespace();
+      const char = source[pos];
+      if (char === '{') parts.push(readBalanced('{', '}'));
+      else if (char === '"') parts.push(readQuoted());
+      else {
+        const word = source.slice(pos).match(/^[^\s,#})]+/)?.[0] ?? '';
+        pos += word.length;
+        parts.push(macros[word.toLowerCase()] ?? word);
+      }
+      skipWhitespace();
+      if (source[pos] !== '#') break;
+      pos++;
+    }
+    return parts.join('');
+  };
+
+  while (source.indexOf('@', pos) !== -1) {
+    pos = source.indexOf('@', pos) + 1;
+    const type = source
+      .slice(pos)
+      .match(/^[a-zA-Z]+/)?.[0]
+      ?.toLowerCase();
+    if (!type) continue;
+    pos += type.length;
+    skipWhitespace();
+
+    const open = source[pos];
+    if (open !== '{' && open !== '(') continue;
+    const close = open === '{' ? '}' : ')';
+
+    if (type === 'comment' || type === 'preamble') {
+      readBalanced(open, close);
+      continue;
+    }
+
+    pos++;
+    skipWhitespace();
+
+    if (type === 'string') {
+      const name = source.slice(pos).match(/^[^\s=]+/)?.[0] ?? '';
+      pos = source.indexOf('=', pos) + 1;
+      macros[name.toLowerCase()] = readValue();
+      pos = source.indexOf(close, pos) + 1;
+      continue;
+    }
+
+    const keyEnd = source.indexOf(',', pos);
+    if (keyEnd === -1) break;
+    const key = source.slice(pos, keyEnd).trim();
+    pos = keyEnd + 1;
+
+    const fields: Record<string, string> = {};
+    while (pos < source.length) {
+      skipWhitespace();
+      if (source[pos] === close) {
+        pos++;
+        break;
+      }
+      if (source[pos] === ',') {
+        pos++;
+        continue;
+      }
+      const name = source.slice(pos).match(/^[^\s=,}]+/)?.[0];
+      if (!name) {
+        pos++;
+        continue;
+      }
+      pos = source.indexOf('=', pos) + 1;
+      if (pos === 0) break;
+      fields[name.toLowerCase()] = readValue();
+    }
+
+    items.push(bibtexEntryToCsl(type, key, fields));
+  }
+
+  return items;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+const fileCache = new Map<string, { mtimeMs: number; bibliography: Bibliography }>();
+
+/**
+ * Load a bibliography file (.bib or CSL-JSON .json), cached until the file changes
+ * @returns null when the file does not exist or cannot be parsed
+ */
+export function loadBibliography(file: string): Bibliography | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    console.warn(`[Citations] Bibliography not found: ${file}`);
+    return null;
+  }
+
+  const cached = fileCache.get(file);
+  if (cached?.mtimeMs === mtimeMs) return cached.bibliography;
+
+  try {
+    const content = fs.readFileSync(file, 'utf-8');
+    const ext = path.extname(file).toLowerCase();
+    let items: CslItem[];
+    if (ext === '.bib') {
+      items = parseBibtex(content);
+    } else if (ext === '.json') {
+      const data = JSON.parse(content);
+      items = Array.isArray(data) ? data : (data.items ?? []);
+    } else {
+      console.warn(`[Citations] Unsupported bibliography format "${ext}" (use .bib or .json): ${file}`);
+      return null;
+    }
+
+    const bibliography: Bibliography = new Map(items.filter((item) => item?.id).map((item) => [String(item.id), item]));
+    fileCache.set(file, { mtimeMs, bibliography });
+    return bibliography;
+  } catch (error) {
+    console.warn(`[Citations] Failed to parse bibliography ${file}:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** Authors shown before 'et al.' */
+const MAX_AUTHORS = 6;
+
+/** Types whose title is a standalone work (italic) rather than a part of a container (quoted) */
+const STANDALONE_TYPES = new Set(['book', 'thesis', 'report']);
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatName(name: CslName): string {
+  if (name.literal) return name.literal;
+  const initials = (name.given ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) =>
+      part
+        .split('-')
+        .map((piece) => `${piece.charAt(0)}.`)
+        .join('-'),
+    )
+    .join(' ');
+  return [initials, name.family].filter(Boolean).join(' ');
+}
+
+function formatAuthors(authors: CslName[] = []): string {
+  const names = authors.map(formatName).filter(Boolean);
+  if (names.length > MAX_AUTHORS) return `${names[0]} et al.`;
+  if (names.length <= 2) return names.join(' and ');
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`;
+}
+
+function formatYear(issued?: CslDate): string {
+  return String(issued?.['date-parts']?.[0]?.[0] ?? issued?.literal ?? '');
+}
+
+/**
+ * Format a reference in a numeric (IEEE-like) style
+ * @param html Emit <i>/<a> markup; otherwise plain text (still HTML-escaped)
+ */
+export function formatReference(item: CslItem, html = true): string {
+  const italic = (value: string) => (html ? `<i>${escapeHtml(value)}</i>` : escapeHtml(value));
+  const link = (href: string, label: string) =>
+    html ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener">${escapeHtml(label)}</a>` : escapeHtml(label);
+
+  const title = item.title ? (STANDALONE_TYPES.has(item.type ?? '') ? italic(item.title) : `“${escapeHtml(item.title)}”`) : '';
+  const page = item.page ? String(item.page).replace(/-+/g, '–') : '';
+
+  const parts = [
+    escapeHtml(formatAuthors(item.author)),
+    title,
+    item['container-title'] ? italic(item['container-title']) : '',
+    item.volume ? `vol. ${escapeHtml(String(item.volume))}` : '',
+    item.issue ? `no. ${escapeHtml(String(item.issue))}` : '',
+    page ? `${page.includes('–') ? 'pp.' : 'p.'} ${escapeHtml(page)}` : '',
+    item.publisher ? escapeHtml(item.publisher) : '',
+    escapeHtml(formatYear(item.issued)),
+  ].filter(Boolean);
+
+  let reference = `${parts.join(', ') || escapeHtml(item.id)}.`;
+  if (item.DOI) reference += ` doi: ${link(`https://doi.org/${item.DOI}`, item.DOI)}`;
+  else if (item.URL) reference += ` ${link(item.URL, item.URL)}`;
+  return reference;
+}
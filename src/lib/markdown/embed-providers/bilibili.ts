@@ -0,0 +1,47 @@
+/**
+ * Bilibili: click-to-load player from player.bilibili.com
+ * Supports bilibili.com/video/BV... and /video/av... links with an optional ?p= part
+ */
+
+import type { EmbedProvider } from './types';
+import { fetchJson, renderClickToLoad } from './utils';
+
+interface BilibiliMatch {
+  bvid?: string;
+  aid?: string;
+  page: number;
+}
+
+interface BilibiliMetadata {
+  title: string;
+  author?: string;
+}
+
+export const bilibiliProvider: EmbedProvider<BilibiliMatch, BilibiliMetadata> = {
+  name: 'bilibili',
+  match(url) {
+    if (!['bilibili.com', 'www.bilibili.com', 'm.bilibili.com'].includes(url.hostname)) return null;
+    const id = url.pathname.match(/^\/video\/(BV[\da-zA-Z]{10}|av\d+)/i)?.[1];
+    if (!id) return null;
+    const page = Number(url.searchParams.get('p')) || 1;
+    return id.toLowerCase().startsWith('av') ? { aid: id.slice(2), page } : { bvid: id, page };
+  },
+  async fetchMetadata({ bvid, aid }) {
+    const query = bvid ? `bvid=${bvid}` : `aid=${aid}`;
+    const response = await fetchJson<{ code: number; data?: { title: string; owner?: { name: string } } }>(
+      `https://api.bilibili.com/x/web-interface/view?${query}`,
+    );
+    return response?.code === 0 && response.data ? { title: response.data.title, author: response.data.owner?.name } : null;
+  },
+  render: ({ url, match, metadata }) =>
+    renderClickToLoad({
+      provider: 'bilibili',
+      label: 'Bilibili',
+      url,
+      src: `https://player.bilibili.com/player.html?${match.bvid ? `bvid=${match.bvid}` : `aid=${match.aid}`}&p=${match.page}&autoplay=1&high_quality=1`,
+      title: metadata?.title,
+      subtitle: metadata?.author,
+      action: 'Play video',
+      allow: 'autoplay; fullscreen; picture-in-picture',
+    }),
+};
@@ -0,0 +1,21 @@
+/**
+ * CodePen: official embed markup, initialized by the CodePen script in Layout.astro
+ * https://blog.codepen.io/documentation/embedded-pens/
+ */
+
+import { escapeHtml } from '../bibliography';
+import { extractCodePenId } from '../link-utils';
+import type { EmbedProvider } from './types';
+import { safeUrl } from './utils';
+
+export const codepenProvider: EmbedProvider<{ user: string; penId: string }> = {
+  name: 'codepen',
+  match: (url) => extractCodePenId(url.href),
+  render: ({ url, match }) => {
+    const user = escapeHtml(match.user);
+    const penId = escapeHtml(match.penId);
+    return `<p class="codepen" data-height="400" data-default-tab="result" data-slug-hash="${penId}" data-user="${user}">
+  <span>See the Pen <a href="${safeUrl(url)}">${penId}</a> by ${user} (<a href="https://codepen.io/${user}">@${user}</a>) on <a href="https://codepen.io">CodePen</a>.</span>
+</p>`;
+  },
+};
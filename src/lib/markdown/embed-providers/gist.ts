@@ -0,0 +1,68 @@
+/**
+ * GitHub Gists: files fetched at build time and rendered as static code, no script from GitHub on the page
+ */
+
+import { escapeHtml } from '../bibliography';
+import { githubHeaders } from './github';
+import type { EmbedProvider } from './types';
+import { fetchJson, renderCard } from './utils';
+
+interface GistMatch {
+  id: string;
+}
+
+interface GistMetadata {
+  description?: string;
+  owner?: string;
+  files: { filename: string; content: string }[];
+}
+
+/** Longer files are cut off; the card links to the full gist */
+const MAX_LINES = 40;
+const MAX_FILES = 3;
+
+export const gistProvider: EmbedProvider<GistMatch, GistMetadata> = {
+  name: 'gist',
+  match(url) {
+    if (url.hostname !== 'gist.github.com') return null;
+    // /user/id or /id
+    const id = url.pathname.match(/^\/(?:[\w-]+\/)?([\da-f]{20,})\/?$/i)?.[1];
+    return id ? { id } : null;
+  },
+  async fetchMetadata({ id }) {
+    const data = await fetchJson<{
+      description: string | null;
+      owner?: { login: string };
+      files: Record<string, { filename: string; content?: string }>;
+    }>(`https://api.github.com/gists/${id}`, githubHeaders());
+    if (!data) return null;
+    return {
+      description: data.description ?? undefined,
+      owner: data.owner?.login,
+      files: Object.values(data.files)
+        .slice(0, MAX_FILES)
+        .map(({ filename, content = '' }) => ({ filename, content })),
+    };
+  },
+  render({ url, match, metadata }) {
+    const files = (metadata?.files ?? []).map(({ filename, content }) => {
+      const lines = content.split('\n');
+      const truncated = lines.length > MAX_LINES;
+      const code = escapeHtml(lines.slice(0, MAX_LINES).join('\n'));
+      return `<figure class="embed-gist-file">
+    <figcaption>${escapeHtml(filename)}</figcaption>
+    <pre><code>${code}${truncated ? '\n…' : ''}</code></pre>
+  </figure>`;
+    });
+
+    return renderCard({
+      provider: 'gist',
+      label: 'Gist',
+      url,
+      title: metadata?.files[0]?.filename ?? `Gist ${match.id.slice(0, 7)}`,
+      description: metadata?.description,
+      details: metadata?.owner ? [`by ${metadata.owner}`] : [],
+      body: files.join('\n'),
+    });
+  },
+};
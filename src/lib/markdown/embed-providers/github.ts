@@ -0,0 +1,114 @@
+/**
+ * GitHub repositories, issues and pull requests: static cards from the REST API at build time
+ * Set GITHUB_TOKEN to raise the API rate limit (60 requests/hour without it)
+ */
+
+import type { EmbedProvider } from './types';
+import { fetchJson, formatCount, renderCard } from './utils';
+
+interface GitHubMatch {
+  owner: string;
+  repo: string;
+  kind: 'repo' | 'issue' | 'pull';
+  number?: number;
+}
+
+type GitHubMetadata =
+  | { kind: 'repo'; description?: string; stars: number; forks: number; language?: string }
+  | { kind: 'issue' | 'pull'; title: string; state: string; author: string; comments: number };
+
+/** Top-level paths that aren't users or organizations */
+const RESERVED_OWNERS = ['orgs', 'settings', 'marketplace', 'topics', 'collections', 'sponsors', 'features', 'explore'];
+
+/**
+ * GitHub API headers, with the token when one is configured
+ */
+export function githubHeaders(): Record<string, string> {
+  const token = process.env.GITHUB_TOKEN;
+  return {
+    Accept: 'application/vnd.github+json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export const githubProvider: EmbedProvider<GitHubMatch, GitHubMetadata> = {
+  name: 'github',
+  match(url) {
+    if (url.hostname !== 'github.com' && url.hostname !== 'www.github.com') return null;
+    const [owner, repo, section, number, ...rest] = url.pathname.split('/').filter(Boolean);
+    if (!owner || !repo || RESERVED_OWNERS.includes(owner)) return null;
+    if (!section) return { owner, repo, kind: 'repo' };
+    // Only /issues/1 and /pull/1 themselves, not their sub pages (e.g. /pull/1/files)
+    if ((section === 'issues' || section === 'pull') && /^\d+$/.test(number ?? '') && !rest.length) {
+      return { owner, repo, kind: section === 'pull' ? 'pull' : 'issue', number: Number(number) };
+    }
+    return null;
+  },
+  async fetchMetadata({ owner, repo, kind, number }) {
+    if (kind === 'repo') {
+      const data = await fetchJson<{
+        description: string | null;
+        stargazers_count: number;
+        forks_count: number;
+        language: string | null;
+      }>(`https://api.github.com/repos/${owner}/${repo}`, githubHeaders());
+      return data
+        ? {
+            kind,
+            description: data.description ?? undefined,
+            stars: data.stargazers_count,
+            forks: data.forks_count,
+            language: data.language ?? undefined,
+          }
+        : null;
+    }
+
+    // Pull requests are issues in the API; merged PRs are closed with pull_request.merged_at set
+    const data = await fetchJson<{
+      title: string;
+      state: string;
+      user: { login: string };
+      comments: number;
+      pull_request?: { merged_at: string | null };
+    }>(`https://api.github.com/repos/${owner}/${repo}/issues/${number}`, githubHeaders());
+    return data
+      ? {
+          kind,
+          title: data.title,
+          state: data.pull_request?.merged_at ? 'merged' : data.state,
+          author: data.user.login,
+          comments: data.comments,
+        }
+      : null;
+  },
+  render({ url, match, metadata }) {
+    const fullName = `${match.owner}/${match.repo}`;
+
+    if (match.kind === 'repo') {
+      const repo = metadata?.kind === 'repo' ? metadata : null;
+      return renderCard({
+        provider: 'github',
+        label: 'GitHub',
+        url,
+        title: fullName,
+        description: repo?.description,
+        details: repo
+          ? [repo.language, `★ ${formatCount(repo.stars)}`, `Forks ${formatCount(repo.forks)}`].filter(
+              (detail): detail is string => Boolean(detail),
+            )
+          : [],
+      });
+    }
+
+    const issue = metadata?.kind === 'repo' ? null : metadata;
+    const label = match.kind === 'pull' ? 'Pull request' : 'Issue';
+    return renderCard({
+      provider: 'github',
+      label: 'GitHub',
+      url,
+      title: issue?.title ?? `${label} #${match.number}`,
+      description: `${fullName}#${match.number}`,
+      details: issue ? [`${label} · ${issue.state}`, `by ${issue.author}`, `${issue.comments} comments`] : [label],
+    });
+  },
+};
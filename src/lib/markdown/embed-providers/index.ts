@@ -0,0 +1,50 @@
+/**
+ * Link Embed Providers
+ *
+ * Standalone links matched by a provider are rendered by it instead of an OG preview card.
+ * To add a provider, create a module exporting an EmbedProvider and list it below.
+ */
+
+import { bilibiliProvider } from './bilibili';
+import { codepenProvider } from './codepen';
+import { gistProvider } from './gist';
+import { githubProvider } from './github';
+import { spotifyProvider } from './spotify';
+import { tweetProvider } from './tweet';
+import type { EmbedProvider, EmbedProviderName } from './types';
+import { youtubeProvider } from './youtube';
+
+export type { EmbedProvider, EmbedProviderName, EmbedRenderContext } from './types';
+
+/** All providers, tried in order */
+export const embedProviders: EmbedProvider[] = [
+  tweetProvider,
+  codepenProvider,
+  youtubeProvider,
+  bilibiliProvider,
+  gistProvider,
+  githubProvider,
+  spotifyProvider,
+];
+
+/**
+ * Find the first enabled provider that handles the URL
+ */
+export function matchEmbedProvider(
+  url: string,
+  enabled: Partial<Record<EmbedProviderName, boolean>> = {},
+): { provider: EmbedProvider; match: unknown } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const provider of embedProviders) {
+    if (enabled[provider.name] === false) continue;
+    const match = provider.match(parsed);
+    if (match) return { provider, match };
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Spotify: click-to-load player from open.spotify.com/embed
+ * Supports track, album, playlist, artist, episode and show links (including /intl-xx/ paths)
+ */
+
+import type { EmbedProvider } from './types';
+import { fetchJson, renderClickToLoad } from './utils';
+
+interface SpotifyMatch {
+  kind: string;
+  id: string;
+}
+
+interface SpotifyMetadata {
+  title: string;
+}
+
+/** Player heights used by Spotify's own embed code */
+const COMPACT_KINDS = ['track', 'episode'];
+
+export const spotifyProvider: EmbedProvider<SpotifyMatch, SpotifyMetadata> = {
+  name: 'spotify',
+  match(url) {
+    if (url.hostname !== 'open.spotify.com') return null;
+    const match = url.pathname.match(/^(?:\/intl-[\w-]+)?\/(track|album|playlist|artist|episode|show)\/([\da-zA-Z]+)/);
+    return match ? { kind: match[1], id: match[2] } : null;
+  },
+  async fetchMetadata({ kind, id }) {
+    const data = await fetchJson<{ title: string }>(
+      `https://open.spotify.com/oembed?url=${encodeURIComponent(`https://open.spotify.com/${kind}/${id}`)}`,
+    );
+    return data ? { title: data.title } : null;
+  },
+  render: ({ url, match, metadata }) =>
+    renderClickToLoad({
+      provider: 'spotify',
+      label: 'Spotify',
+      url,
+      src: `https://open.spotify.com/embed/${match.kind}/${match.id}`,
+      title: metadata?.title,
+      subtitle: match.kind.charAt(0).toUpperCase() + match.kind.slice(1),
+      action: 'Load player',
+      height: COMPACT_KINDS.includes(match.kind) ? 152 : 352,
+      allow: 'autoplay; clipboard-write; encrypted-media; fullscreen; picture-in-picture',
+    }),
+};
@@ -0,0 +1,12 @@
+/**
+ * Twitter / X: placeholder hydrated by EmbedHydrator (react-tweet)
+ */
+
+import { extractTweetId } from '../link-utils';
+import type { EmbedProvider } from './types';
+
+export const tweetProvider: EmbedProvider<string> = {
+  name: 'tweet',
+  match: (url) => extractTweetId(url.href),
+  render: ({ match }) => `<div data-tweet-embed data-tweet-id="${match}"></div>`,
+};
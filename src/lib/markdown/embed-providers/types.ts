@@ -0,0 +1,30 @@
+/**
+ * Link embed provider type definitions
+ */
+
+import type { EmbedProviderName } from '../../config/types';
+
+export type { EmbedProviderName };
+
+export interface EmbedRenderContext<TMatch, TMetadata> {
+  /** Original link URL */
+  url: string;
+  match: TMatch;
+  /** Build-time metadata, null when the provider has no fetcher or fetching failed */
+  metadata: TMetadata | null;
+}
+
+/**
+ * A link embed provider: URL matcher, optional build-time metadata fetcher and HTML renderer
+ * Methods (not function properties) keep providers with different match/metadata types assignable to EmbedProvider
+ */
+export interface EmbedProvider<TMatch = unknown, TMetadata = unknown> {
+  /** Key under content.embedProviders in config/site.yaml */
+  name: EmbedProviderName;
+  /** Parse the link, or return null if this provider doesn't handle it */
+  match(url: URL): TMatch | null;
+  /** Fetch metadata at build time; results are cached with the OG previews */
+  fetchMetadata?(match: TMatch): Promise<TMetadata | null>;
+  /** Render the embed HTML (all dynamic values must be escaped) */
+  render(context: EmbedRenderContext<TMatch, TMetadata>): string;
+}
@@ -0,0 +1,112 @@
+/**
+ * Shared helpers for link embed providers
+ */
+
+import { escapeHtml } from '../bibliography';
+
+const TIMEOUT_MS = 5000;
+
+/**
+ * Escape an http(s) URL for an attribute; other protocols become ''
+ */
+export function safeUrl(url: string): string {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol) ? escapeHtml(url) : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Fetch JSON at build time, or null on failure (with timeout to avoid hanging builds)
+ */
+export async function fetchJson<T>(url: string, headers: Record<string, string> = {}): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', 'User-Agent': 'jeet-u-link-embed', ...headers },
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.warn(`[Link Embed] Failed to fetch ${url}: ${response.status}`);
+      return null;
+    }
+    return (await response.json()) as T;
+  } catch (error) {
+    console.warn(`[Link Embed] Error fetching ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export interface ClickToLoadOptions {
+  provider: string;
+  /** Provider display name */
+  label: string;
+  /** Original link */
+  url: string;
+  /** iframe src, only requested after the reader clicks */
+  src: string;
+  title?: string;
+  subtitle?: string;
+  /** Button text, e.g. 'Play video' */
+  action: string;
+  /** Fixed height in px, otherwise 16:9 */
+  height?: number;
+  /** iframe allow attribute */
+  allow?: string;
+}
+
+/**
+ * Render a click-to-load placeholder: nothing is requested from the provider until the reader clicks
+ * embed-enhancer.ts swaps it for the iframe
+ */
+export function renderClickToLoad(options: ClickToLoadOptions): string {
+  const { provider, label, url, src, title, subtitle, action, height, allow = '' } = options;
+  const domain = new URL(src).hostname.replace(/^www\./, '');
+  const size = height ? `height: ${height}px` : 'aspect-ratio: 16 / 9';
+
+  return `<div class="embed-facade not-prose" data-embed-provider="${escapeHtml(provider)}" data-embed-src="${safeUrl(src)}" data-embed-allow="${escapeHtml(allow)}" data-embed-title="${escapeHtml(title ?? label)}" style="${size}">
+  <div class="embed-facade-body">
+    <span class="embed-facade-provider">${escapeHtml(label)}</span>
+    ${title ? `<p class="embed-facade-title">${escapeHtml(title)}</p>` : ''}
+    ${subtitle ? `<p class="embed-facade-subtitle">${escapeHtml(subtitle)}</p>` : ''}
+    <button type="button" class="embed-facade-load">
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true"><path d="M8 5.14v13.72a1 1 0 0 0 1.52.85l10.96-6.86a1 1 0 0 0 0-1.7L9.52 4.29A1 1 0 0 0 8 5.14"/></svg>
+      ${escapeHtml(action)}
+    </button>
+    <p class="embed-facade-notice">Loading sends data to ${escapeHtml(domain)}. <a href="${safeUrl(url)}" target="_blank" rel="noopener">Open on ${escapeHtml(label)}</a></p>
+  </div>
+</div>`;
+}
+
+/**
+ * Render a static card with a provider badge, used for content that is fetched at build time
+ */
+export function renderCard(options: {
+  provider: string;
+  label: string;
+  url: string;
+  title: string;
+  description?: string;
+  /** Small facts shown below the description, e.g. '★ 1.2k' */
+  details?: string[];
+  body?: string;
+}): string {
+  const { provider, label, url, title, description, details = [], body = '' } = options;
+
+  return `<div class="embed-card not-prose" data-embed-provider="${escapeHtml(provider)}">
+  <a href="${safeUrl(url)}" target="_blank" rel="noopener" class="embed-card-header">
+    <span class="embed-facade-provider">${escapeHtml(label)}</span>
+    <span class="embed-card-title">${escapeHtml(title)}</span>
+    ${description ? `<span class="embed-card-description">${escapeHtml(description)}</span>` : ''}
+    ${details.length ? `<span class="embed-card-details">${details.map((detail) => `<span>${escapeHtml(detail)}</span>`).join('')}</span>` : ''}
+  </a>
+  ${body}
+</div>`;
+}
+
+/**
+ * 1234 → 1.2k
+ */
+export function formatCount(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(count >= 10000 ? 0 : 1)}k` : String(count);
+}
@@ -0,0 +1,66 @@
+/**
+ * YouTube: click-to-load player from youtube-nocookie.com
+ * Supports youtube.com/watch?v=, youtu.be/, /shorts/, /embed/ and /live/ links with an optional t= start time
+ */
+
+import type { EmbedProvider } from './types';
+import { fetchJson, renderClickToLoad } from './utils';
+
+interface YouTubeMatch {
+  videoId: string;
+  /** Start time in seconds */
+  start?: number;
+}
+
+interface YouTubeMetadata {
+  title: string;
+  author?: string;
+}
+
+const VIDEO_ID_REGEX = /^[\w-]{11}$/;
+
+/**
+ * Parse t=90, t=1m30s or start=90
+ */
+function parseStart(url: URL): number | undefined {
+  const value = url.searchParams.get('t') ?? url.searchParams.get('start');
+  if (!value) return undefined;
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  if (!match) return undefined;
+  const seconds = Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  return seconds || undefined;
+}
+
+export const youtubeProvider: EmbedProvider<YouTubeMatch, YouTubeMetadata> = {
+  name: 'youtube',
+  match(url) {
+    const host = url.hostname.replace(/^(www|m|music)\./, '');
+    let videoId: string | null = null;
+    if (host === 'youtu.be') {
+      videoId = url.pathname.slice(1);
+    } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+      videoId =
+        url.pathname === '/watch'
+          ? url.searchParams.get('v')
+          : (url.pathname.match(/^\/(?:shorts|embed|live)\/([^/]+)/)?.[1] ?? null);
+    }
+    return videoId && VIDEO_ID_REGEX.test(videoId) ? { videoId, start: parseStart(url) } : null;
+  },
+  async fetchMetadata({ videoId }) {
+    const data = await fetchJson<{ title: string; author_name?: string }>(
+      `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(`https://www.youtube.com/watch?v=${videoId}`)}`,
+    );
+    return data ? { title: data.title, author: data.author_name } : null;
+  },
+  render: ({ url, match, metadata }) =>
+    renderClickToLoad({
+      provider: 'youtube',
+      label: 'YouTube',
+      url,
+      src: `https://www.youtube-nocookie.com/embed/${match.videoId}?autoplay=1${match.start ? `&start=${match.start}` : ''}`,
+      title: metadata?.title,
+      subtitle: metadata?.author,
+      action: 'Play video',
+      allow: 'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share',
+    }),
+};
@@ -0,0 +1,97 @@
+/**
+ * Link preview cache files
+ *
+ * OG data and embed provider metadata fetched at build time, keyed by URL (provider metadata by `${provider}:${url}`):
+ * 1. src/assets/link-previews.json - optional committed snapshot (`koharu cache export`)
+ * 2. .cache/og-data.json           - git-ignored local cache, written by builds (newer entries win)
+ *
+ * Used by remark-link-embed and the koharu CLI, so only relative imports are allowed here.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const LINK_PREVIEW_CACHE_FILE = '.cache/og-data.json';
+export const LINK_PREVIEW_SNAPSHOT_FILE = 'src/assets/link-previews.json';
+
+export interface LinkPreviewCacheEntry {
+  /** OG data or provider metadata */
+  data: unknown;
+  /** Fetch time (ms since epoch) */
+  timestamp: number;
+}
+
+export type LinkPreviewCache = Record<string, LinkPreviewCacheEntry>;
+
+function isCacheEntry(value: unknown): value is LinkPreviewCacheEntry {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'data' in value &&
+    typeof (value as LinkPreviewCacheEntry).timestamp === 'number'
+  );
+}
+
+/**
+ * Read a cache or snapshot file, skipping malformed entries
+ * @returns An empty cache if the file doesn't exist or can't be parsed
+ */
+export function readLinkPreviewCache(file: string): LinkPreviewCache {
+  if (!fs.existsSync(file)) return {};
+
+  try {
+    const content: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+      console.warn(`[Link Embed] Ignoring ${file}: expected a JSON object`);
+      return {};
+    }
+    return Object.fromEntries(Object.entries(content).filter(([, entry]) => isCacheEntry(entry)));
+  } catch (error) {
+    console.warn(`[Link Embed] Failed to read ${file}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Write a cache or snapshot file, with keys sorted so committed snapshots diff cleanly
+ */
+export function writeLinkPreviewCache(file: string, cache: LinkPreviewCache): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const sorted = Object.fromEntries(Object.entries(cache).sort(([a], [b]) => a.localeCompare(b)));
+  fs.writeFileSync(file, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+/**
+ * Merge caches, keeping the newer entry for keys present in several
+ */
+export function mergeLinkPreviewCaches(...caches: LinkPreviewCache[]): LinkPreviewCache {
+  const result: LinkPreviewCache = {};
+  for (const cache of caches) {
+    for (const [key, entry] of Object.entries(cache)) {
+      if (!result[key] || entry.timestamp > result[key].timestamp) result[key] = entry;
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether an entry is younger than maxAge (ms)
+ */
+export function isFreshEntry(entry: LinkPreviewCacheEntry, maxAge: number, now: number = Date.now()): boolean {
+  return now - entry.timestamp < maxAge;
+}
+
+/**
+ * Whether an entry records a failed fetch (OG data with an error), which a refresh should retry
+ */
+export function isFailedEntry(entry: LinkPreviewCacheEntry): boolean {
+  return entry.data == null || (typeof entry.data === 'object' && 'error' in entry.data && Boolean(entry.data.error));
+}
+
+/**
+ * Split a cache key into the embed provider name (if any) and the URL
+ */
+export function parseCacheKey(key: string): { provider: string | null; url: string } {
+  const match = key.match(/^([a-z]+):(https?:\/\/.*)$/);
+  return match ? { provider: match[1], url: match[2] } : { provider: null, url: key };
+}
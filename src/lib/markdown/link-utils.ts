@@ -1,17 +1,8 @@
 /**
- * Link detection and classification utilities for markdown processing
+ * Link detection utilities for markdown processing
+ * Links are classified by the providers in ./embed-providers
  */
 
-export interface LinkInfo {
-  url: string;
-  type: 'tweet' | 'codepen' | 'general';
-  tweetId?: string;
-  codepen?: {
-    user: string;
-    penId: string;
-  };
-}
-
 /** Generic Markdown AST node type */
 export interface MarkdownNode {
   type: string;
@@ -94,36 +85,6 @@ export function isCodePenUrl(url: string): boolean {
   return extractCodePenId(url) !== null;
 }
 
-/**
- * Classify a link and extract relevant information
- */
-export function classifyLink(url: string): LinkInfo {
-  const tweetId = extractTweetId(url);
-
-  if (tweetId) {
-    return {
-      url,
-      type: 'tweet',
-      tweetId,
-    };
-  }
-
-  const codepen = extractCodePenId(url);
-
-  if (codepen) {
-    return {
-      url,
-      type: 'codepen',
-      codepen,
-    };
-  }
-
-  return {
-    url,
-    type: 'general',
-  };
-}
-
 /**
  * Check if a node is a standalone paragraph with only a link
  * Used in remark plugin to detect links that should be embedded
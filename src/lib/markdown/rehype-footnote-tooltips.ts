@@ -0,0 +1,54 @@
+/**
+ * Rehype plugin to add hover previews to GFM footnote references
+ * Copies each footnote's text into its reference's title attribute, which astro-tooltips turns into a tooltip
+ */
+import type { Element, ElementContent, Root } from 'hast';
+import { visit } from 'unist-util-visit';
+import { escapeHtml } from './bibliography';
+
+/** Longer footnotes are truncated in the preview */
+const MAX_PREVIEW_LENGTH = 280;
+
+/**
+ * Get the text of a node, skipping footnote back references
+ */
+function getText(node: ElementContent): string {
+  if (node.type === 'text') return node.value;
+  if (node.type !== 'element' || node.properties?.dataFootnoteBackref !== undefined) return '';
+  return node.children.map(getText).join(node.tagName === 'p' ? ' ' : '');
+}
+
+export function rehypeFootnoteTooltips() {
+  return (tree: Root) => {
+    const previews = new Map<string, string>();
+
+    // Footnote definitions live in <section data-footnotes><ol><li id="user-content-fn-1">
+    visit(tree, 'element', (node: Element) => {
+      if (node.tagName !== 'section' || node.properties?.dataFootnotes === undefined) return;
+      visit(node, 'element', (item: Element) => {
+        if (item.tagName !== 'li' || typeof item.properties?.id !== 'string') return;
+        const text = item.children.map(getText).join(' ').replace(/\s+/g, ' ').trim();
+        if (!text) return;
+        previews.set(
+          item.properties.id,
+          text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH).trimEnd()}…` : text,
+        );
+      });
+    });
+    if (!previews.size) return;
+
+    visit(tree, 'element', (node: Element) => {
+      if (node.tagName !== 'a' || node.properties?.dataFootnoteRef === undefined) return;
+      const href = String(node.properties.href ?? '');
+      const preview = previews.get(decodeURIComponent(href.slice(1)));
+      if (!preview) return;
+
+      node.properties = {
+        ...node.properties,
+        // Tooltips render titles as HTML
+        title: escapeHtml(preview),
+        dataTooltipPlacement: 'top',
+      };
+    });
+  };
+}
@@ -1,18 +1,126 @@
 /**
  * Rehype plugin to enhance images with lazy loading and placeholder containers
  * Wraps images in figure elements with placeholder styling for CLS prevention
+ * Images under public/img get intrinsic width/height and become <picture> with AVIF/WebP srcsets
+ * Wrappers get the LQIP placeholder of images under public/img and of images co-located with the post
+ * (relative paths, which Astro optimizes itself)
+ * The image title (or alt) becomes a <figcaption>, with EXIF data for posts with `exif: true`
  */
-import type { Element, Root } from 'hast';
+import path from 'node:path';
+import type { Element, ElementContent, Parent, Root } from 'hast';
 import { visit } from 'unist-util-visit';
+import { formatImageExif, readImageExif } from '../image-exif';
+import { getLqipStyle } from '../lqip';
+import { getResponsiveImage, MARKDOWN_IMAGE_SIZES } from '../responsive-image';
+
+interface MarkdownFile {
+  path?: string;
+  data: { astro?: { frontmatter?: Record<string, unknown> } };
+}
+
+interface LocalImage {
+  /** LQIP key: /img/ path, or project-relative path of a co-located image */
+  path: string;
+  /** Absolute path of the source file */
+  file: string;
+}
+
+/**
+ * Resolve an image under public/img, or a relative path against the post (co-located image)
+ * @returns undefined for external, absolute or data URLs
+ */
+function resolveLocalImage(src: unknown, postPath?: string): LocalImage | undefined {
+  if (typeof src !== 'string') return undefined;
+  const cleanSrc = decodeURI(src.split(/[?#]/)[0]);
+  if (src.startsWith('/img/')) return { path: src, file: path.join(process.cwd(), 'public', cleanSrc) };
+  if (!postPath || /^([a-z][a-z\d+.-]*:|\/|#)/i.test(src)) return undefined;
+
+  const file = path.resolve(path.dirname(postPath), cleanSrc);
+  return { path: path.relative(process.cwd(), file).split(path.sep).join('/'), file };
+}
+
+/**
+ * Build the caption from the image title, falling back to its alt text
+ * The title is moved off the <img> so it isn't shown twice as a tooltip
+ */
+async function createCaption(node: Element, image: LocalImage | undefined, showExif: boolean): Promise<Element | null> {
+  const title = typeof node.properties.title === 'string' ? node.properties.title.trim() : '';
+  const alt = typeof node.properties.alt === 'string' ? node.properties.alt.trim() : '';
+  if (title) delete node.properties.title;
+
+  const exif = showExif && image ? await readImageExif(image.file) : null;
+  const exifFields = exif ? formatImageExif(exif) : [];
+  if (!title && !alt && !exifFields.length) return null;
+
+  const children: ElementContent[] = [];
+  if (title || alt) children.push({ type: 'text', value: title || alt });
+  if (exifFields.length) {
+    children.push({
+      type: 'element',
+      tagName: 'span',
+      properties: { class: 'markdown-image-exif' },
+      children: exifFields.map(
+        (field): Element => ({
+          type: 'element',
+          tagName: 'span',
+          properties: {},
+          children: [{ type: 'text', value: field }],
+        }),
+      ),
+    });
+  }
+
+  return {
+    type: 'element',
+    tagName: 'figcaption',
+    // Screen readers already announce the alt text
+    properties: { class: 'markdown-image-caption', ...(!title && !exifFields.length && { ariaHidden: 'true' }) },
+    children,
+  };
+}
+
+/**
+ * Add intrinsic size to the image and wrap it in <picture> when it has variants
+ * @returns The node to put in the image's place
+ */
+async function toResponsiveImage(node: Element): Promise<Element> {
+  const src = node.properties?.src;
+  const image = typeof src === 'string' ? await getResponsiveImage(src) : null;
+  if (!image) return node;
+
+  // The browser derives the aspect ratio from width/height, .markdown-image only falls back to 16:9 without them
+  node.properties = { ...node.properties, width: image.width, height: image.height };
+  if (!image.sources.length) return node;
+
+  return {
+    type: 'element',
+    tagName: 'picture',
+    properties: {},
+    children: [
+      ...image.sources.map(
+        (source): Element => ({
+          type: 'element',
+          tagName: 'source',
+          properties: { type: source.type, srcSet: source.srcset, sizes: MARKDOWN_IMAGE_SIZES },
+          children: [],
+        }),
+      ),
+      node,
+    ],
+  };
+}
 
 export function rehypeImagePlaceholder() {
-  return (tree: Root) => {
+  return async (tree: Root, file: MarkdownFile) => {
+    const showExif = file.data.astro?.frontmatter?.exif === true;
+    const images: Array<{ node: Element; index: number; parent: Parent; inLink: boolean }> = [];
+
     visit(tree, 'element', (node: Element, index, parent) => {
       if (node.tagName !== 'img') return;
       if (index === undefined || !parent) return;
 
-      // Skip if already wrapped (e.g., in a figure or custom component)
-      if (parent.type === 'element' && parent.tagName === 'figure') return;
+      // Skip if already wrapped (e.g., in a figure, picture or custom component)
+      if (parent.type === 'element' && (parent.tagName === 'figure' || parent.tagName === 'picture')) return;
 
       // Skip wrapping if image is inside a link (e.g., [![alt](img)](url))
       // Only add lazy loading attributes, don't wrap with figure
@@ -22,6 +130,7 @@ export function rehypeImagePlaceholder() {
           loading: 'lazy',
           decoding: 'async',
         };
+        images.push({ node, index, parent, inLink: true });
         return;
       }
 
@@ -37,17 +146,30 @@ export function rehypeImagePlaceholder() {
         decoding: 'async',
         class: `${existingClass} markdown-image`.trim(),
       };
+      images.push({ node, index, parent, inLink: false });
+    });
 
-      // Wrap in figure container
-      const wrapper: Element = {
-        type: 'element',
-        tagName: 'figure',
-        properties: { class: 'markdown-image-wrapper' },
-        children: [node],
-      };
+    // Read image sizes and EXIF in parallel, then replace each image (indexes are unchanged, nodes are swapped 1:1)
+    const localImages = images.map(({ node }) => resolveLocalImage(node.properties.src, file.path));
+    const captions = await Promise.all(
+      images.map(({ node, inLink }, i) => (inLink ? null : createCaption(node, localImages[i], showExif))),
+    );
+    const replacements = await Promise.all(images.map(({ node }) => toResponsiveImage(node)));
 
-      // Replace img with wrapper
-      parent.children[index] = wrapper;
+    images.forEach(({ index, parent, inLink }, i) => {
+      const localImage = localImages[i];
+      const placeholder = localImage ? getLqipStyle(localImage.path) : undefined;
+      const caption = captions[i];
+      const replacement: ElementContent = inLink
+        ? replacements[i]
+        : {
+            // Wrap in figure container, shown as the placeholder until the image loads
+            type: 'element',
+            tagName: 'figure',
+            properties: { class: 'markdown-image-wrapper', ...(placeholder && { style: placeholder }) },
+            children: caption ? [replacements[i], caption] : [replacements[i]],
+          };
+      parent.children[index] = replacement;
     });
   };
 }
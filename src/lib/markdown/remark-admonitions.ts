@@ -0,0 +1,158 @@
+/**
+ * Remark plugin to render callouts from container directives and GitHub alerts
+ * - :::note / tip / info / important / warning / caution / danger / details (requires remark-directive)
+ *   Title via label (:::tip[Custom title]) or attribute (:::tip{title="..."})
+ *   Collapsible via {collapsible} or {open}; :::details is always collapsible
+ * - > [!NOTE] / [!TIP] / [!IMPORTANT] / [!WARNING] / [!CAUTION] blockquotes
+ */
+
+import type { Blockquote, Data, Paragraph, PhrasingContent, Root, RootContent, Text } from 'mdast';
+import type { Parent } from 'unist';
+import { SKIP, visit } from 'unist-util-visit';
+
+/** Admonition type → default title */
+const ADMONITION_TITLES: Record<string, string> = {
+  note: 'Note',
+  tip: 'Tip',
+  info: 'Info',
+  important: 'Important',
+  warning: 'Warning',
+  caution: 'Caution',
+  danger: 'Danger',
+  details: 'Details',
+};
+
+/** [!TYPE] marker on the first line of a GitHub alert, with an optional title after it */
+const GITHUB_ALERT_REGEX = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*([^\n]*)(?:\n|$)/i;
+
+interface DirectiveNode extends Parent {
+  type: 'containerDirective' | 'leafDirective' | 'textDirective';
+  name: string;
+  attributes?: Record<string, string | null | undefined> | null;
+  children: RootContent[];
+  data?: Data;
+}
+
+interface AdmonitionOptions {
+  type: string;
+  title: PhrasingContent[];
+  content: RootContent[];
+  collapsible: boolean;
+  open: boolean;
+}
+
+/**
+ * Build hast data for the admonition container, its title and content wrapper
+ * Collapsible callouts become <details>/<summary>, others a role="note" <div>
+ */
+function buildAdmonition({ type, title, content, collapsible, open }: AdmonitionOptions) {
+  const titleNode: Paragraph = {
+    type: 'paragraph',
+    children: title,
+    data: { hName: collapsible ? 'summary' : 'p', hProperties: { className: ['admonition-title'] } },
+  };
+  const contentNode = {
+    type: 'containerDirective',
+    name: 'admonition-content',
+    children: content,
+    data: { hName: 'div', hProperties: { className: ['admonition-content'] } },
+  } as unknown as RootContent;
+
+  const data: Data = collapsible
+    ? { hName: 'details', hProperties: { className: ['admonition', `admonition-${type}`], open: open || undefined } }
+    : { hName: 'div', hProperties: { className: ['admonition', `admonition-${type}`], role: 'note' } };
+
+  return { data, children: [titleNode as RootContent, contentNode] };
+}
+
+/**
+ * Restore a directive nobody handled to its source text, so 'e.g. 10:30:some' style text isn't swallowed
+ */
+function directiveToText(node: DirectiveNode): PhrasingContent[] {
+  const prefix = node.type === 'leafDirective' ? '::' : ':';
+  const attributes = Object.entries(node.attributes ?? {})
+    .map(([key, value]) => (value ? `${key}="${value}"` : key))
+    .join(' ');
+  const label = node.children as PhrasingContent[];
+  return [
+    { type: 'text', value: `${prefix}${node.name}${label.length ? '[' : ''}` },
+    ...label,
+    { type: 'text', value: `${label.length ? ']' : ''}${attributes ? `{${attributes}}` : ''}` },
+  ];
+}
+
+function transformDirective(node: DirectiveNode) {
+  const type = node.name.toLowerCase();
+  const attributes = node.attributes ?? {};
+
+  // :::tip[Custom title] puts the label in a leading paragraph
+  const [first, ...rest] = node.children;
+  const hasLabel = first?.type === 'paragraph' && Boolean((first.data as { directiveLabel?: boolean })?.directiveLabel);
+  const title: PhrasingContent[] = hasLabel
+    ? (first as Paragraph).children
+    : [{ type: 'text', value: attributes.title || ADMONITION_TITLES[type] }];
+
+  const collapsible = type === 'details' || 'collapsible' in attributes || 'open' in attributes;
+  const { data, children } = buildAdmonition({
+    type,
+    title,
+    content: hasLabel ? rest : node.children,
+    collapsible,
+    open: 'open' in attributes,
+  });
+  node.data = data;
+  node.children = children;
+}
+
+function transformGithubAlert(node: Blockquote): boolean {
+  const paragraph = node.children[0];
+  if (paragraph?.type !== 'paragraph') return false;
+  const text = paragraph.children[0];
+  if (text?.type !== 'text') return false;
+
+  const match = text.value.match(GITHUB_ALERT_REGEX);
+  if (!match) return false;
+
+  const type = match[1].toLowerCase();
+  const customTitle = match[2].trim();
+
+  // Drop the marker line, and the paragraph if nothing else was on it
+  text.value = text.value.slice(match[0].length);
+  if (!text.value) paragraph.children.shift();
+  const content = paragraph.children.length ? node.children : node.children.slice(1);
+
+  const { data, children } = buildAdmonition({
+    type,
+    title: [{ type: 'text', value: customTitle || ADMONITION_TITLES[type] } as Text],
+    content,
+    collapsible: false,
+    open: false,
+  });
+  node.data = data;
+  node.children = children as Blockquote['children'];
+  return true;
+}
+
+export function remarkAdmonitions() {
+  return (tree: Root) => {
+    visit(tree, (node, index, parent: Parent | undefined) => {
+      if (node.type === 'blockquote') {
+        transformGithubAlert(node as Blockquote);
+        return;
+      }
+
+      if (node.type === 'containerDirective') {
+        const directive = node as unknown as DirectiveNode;
+        if (directive.name.toLowerCase() in ADMONITION_TITLES) transformDirective(directive);
+        return;
+      }
+
+      if ((node.type === 'textDirective' || node.type === 'leafDirective') && parent && index !== undefined) {
+        const text = directiveToText(node as unknown as DirectiveNode);
+        const replacement = node.type === 'leafDirective' ? [{ type: 'paragraph', children: text } as Paragraph] : text;
+        parent.children.splice(index, 1, ...(replacement as Parent['children']));
+        return [SKIP, index + replacement.length];
+      }
+    });
+  };
+}
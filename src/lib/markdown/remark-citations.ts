@@ -0,0 +1,149 @@
+/**
+ * Remark plugin to resolve pandoc-style citations against a bibliography
+ * Supports [@key], [@key, p. 12] and [@key1; @key2]
+ * Entries come from the post's `bibliography` frontmatter (relative to the post) merged over the site-wide file,
+ * are numbered by first citation and listed in a bibliography section at the end of the post
+ */
+
+import path from 'node:path';
+import type { Heading, Html, Root, RootContent, Text } from 'mdast';
+import type { Parent } from 'unist';
+import { SKIP, visit } from 'unist-util-visit';
+import { type Bibliography, escapeHtml, formatReference, loadBibliography } from './bibliography';
+
+export interface RemarkCitationsOptions {
+  /** Site-wide bibliography file (.bib or CSL-JSON .json), relative to the project root */
+  bibliography?: string;
+  /** Heading of the generated bibliography section */
+  title?: string;
+}
+
+interface MarkdownFile {
+  path?: string;
+  data: { astro?: { frontmatter?: Record<string, unknown> } };
+}
+
+/** Bracketed text containing at least one '@' */
+const CITATION_GROUP_REGEX = /\[([^[\]]*@[^[\]]*)\]/g;
+/** Single citation with an optional locator: @key or @key, p. 12 */
+const CITATION_REGEX = /^@(\w[\w:.#$%&+?<>~/-]*)(?:\s*,\s*(.+))?$/;
+
+/** Citation keys may contain characters that aren't safe in ids */
+function slugifyKey(key: string): string {
+  return key.replace(/[^\w-]/g, '-');
+}
+
+/**
+ * Parse the inside of [...] into citations, or null if any part isn't a citation
+ */
+function parseCitationGroup(value: string): { key: string; locator?: string }[] | null {
+  const citations = [];
+  for (const part of value.split(';')) {
+    const match = part.trim().match(CITATION_REGEX);
+    if (!match) return null;
+    citations.push({ key: match[1], locator: match[2]?.trim() });
+  }
+  return citations;
+}
+
+/**
+ * Merge the site-wide and post bibliographies (post entries win)
+ */
+function resolveBibliography(file: MarkdownFile, siteBibliography?: string): Bibliography | null {
+  const postBibliography = file.data.astro?.frontmatter?.bibliography;
+  const files = [
+    siteBibliography && path.resolve(process.cwd(), siteBibliography),
+    typeof postBibliography === 'string' && path.resolve(path.dirname(file.path ?? ''), postBibliography),
+  ].filter((value): value is string => Boolean(value));
+
+  const bibliographies = files.map(loadBibliography).filter((value): value is Bibliography => value !== null);
+  if (!bibliographies.length) return null;
+  return new Map(bibliographies.flatMap((bibliography) => [...bibliography]));
+}
+
+export function remarkCitations(options: RemarkCitationsOptions = {}) {
+  const { bibliography: siteBibliography, title = 'References' } = options;
+
+  return (tree: Root, file: MarkdownFile) => {
+    // Bail out before touching the file system when the post has no candidates
+    let hasCandidates = false;
+    visit(tree, 'text', (node: Text) => {
+      if (node.value.includes('[@')) hasCandidates = true;
+    });
+    if (!hasCandidates) return;
+
+    const bibliography = resolveBibliography(file, siteBibliography);
+    if (!bibliography) return;
+
+    /** Cited keys in order of first citation */
+    const cited: string[] = [];
+    /** Citation anchors per key, for backlinks */
+    const anchors = new Map<string, string[]>();
+
+    const renderCitation = (key: string, locator?: string): string => {
+      const item = bibliography.get(key);
+      if (!item) {
+        console.warn(`[Citations] Unknown citation key "${key}" in ${file.path ?? 'markdown'}`);
+        return `<span class="citation citation-missing">[@${escapeHtml(key)}]</span>`;
+      }
+
+      if (!anchors.has(key)) {
+        cited.push(key);
+        anchors.set(key, []);
+      }
+      const keyAnchors = anchors.get(key) ?? [];
+      const anchorId = `cite-${slugifyKey(key)}-${keyAnchors.length + 1}`;
+      keyAnchors.push(anchorId);
+
+      const number = cited.indexOf(key) + 1;
+      const label = locator ? `${number}, ${escapeHtml(locator)}` : String(number);
+      // formatReference escapes once for the tooltip's HTML, escapeHtml escapes again for the attribute
+      const tooltip = escapeHtml(formatReference(item, false));
+      return `<a href="#bib-${slugifyKey(key)}" id="${anchorId}" class="citation" title="${tooltip}" data-tooltip-placement="top">[${label}]</a>`;
+    };
+
+    visit(tree, 'text', (node: Text, index, parent: Parent | undefined) => {
+      if (index === undefined || !parent || parent.type === 'link' || parent.type === 'linkReference') return;
+
+      const nodes: (Text | Html)[] = [];
+      let lastIndex = 0;
+      for (const match of node.value.matchAll(CITATION_GROUP_REGEX)) {
+        const citations = parseCitationGroup(match[1]);
+        if (!citations) continue;
+
+        if (match.index > lastIndex) nodes.push({ type: 'text', value: node.value.slice(lastIndex, match.index) });
+        nodes.push({
+          type: 'html',
+          value: citations.map(({ key, locator }) => renderCitation(key, locator)).join(', '),
+        });
+        lastIndex = match.index + match[0].length;
+      }
+      if (!nodes.length) return;
+
+      if (lastIndex < node.value.length) nodes.push({ type: 'text', value: node.value.slice(lastIndex) });
+      parent.children.splice(index, 1, ...(nodes as Parent['children']));
+      return [SKIP, index + nodes.length];
+    });
+
+    if (!cited.length) return;
+
+    const heading: Heading = {
+      type: 'heading',
+      depth: 2,
+      children: [{ type: 'text', value: title }],
+      data: { hProperties: { className: ['bibliography-title'] } },
+    };
+    const entries = cited.map((key) => {
+      const item = bibliography.get(key);
+      const backlinks = (anchors.get(key) ?? [])
+        .map(
+          (anchorId, i) => `<a href="#${anchorId}" class="bibliography-backref" aria-label="Back to citation ${i + 1}">↩</a>`,
+        )
+        .join(' ');
+      return `<li id="bib-${slugifyKey(key)}">${item ? formatReference(item) : ''} ${backlinks}</li>`;
+    });
+    const list: Html = { type: 'html', value: `<ol class="bibliography">\n${entries.join('\n')}\n</ol>` };
+
+    tree.children.push(heading as RootContent, list);
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Remark plugin to render adjacent fenced code blocks as tabs (requires remark-directive)
+ *
+ * :::code-group
+ * ```bash [npm]
+ * npm install
+ * ```
+ * ```bash [pnpm]
+ * pnpm install
+ * ```
+ * :::
+ *
+ * Tab labels come from [label] in the fence meta, then title="...", then the language.
+ * Panels after the first are hidden until code-group-enhancer.ts switches tabs.
+ */
+
+import type { Code, Data, Html, Root, RootContent } from 'mdast';
+import type { Parent } from 'unist';
+import { visit } from 'unist-util-visit';
+import { escapeHtml } from './bibliography';
+
+/** [label] in the fence meta */
+const LABEL_REGEX = /\[([^\]]+)\]/;
+/** title="..." or title='...' */
+const TITLE_REGEX = /\btitle=(?:"([^"]*)"|'([^']*)')/;
+
+interface ContainerDirective extends Parent {
+  type: 'containerDirective';
+  name: string;
+  children: RootContent[];
+  data?: Data;
+}
+
+/**
+ * Take the tab label out of the fence meta, so Shiki only sees its own options
+ */
+function getTabLabel(code: Code, index: number): string {
+  const meta = code.meta ?? '';
+  const label = meta.match(LABEL_REGEX);
+  if (label) {
+    code.meta = meta.replace(label[0], '').trim() || null;
+    return label[1].trim();
+  }
+  const title = meta.match(TITLE_REGEX);
+  return (title && (title[1] ?? title[2])) || code.lang || `Tab ${index + 1}`;
+}
+
+export function remarkCodeGroup() {
+  return (tree: Root, file: { path?: string }) => {
+    let groupCount = 0;
+
+    visit(tree, (node) => {
+      if (node.type !== 'containerDirective') return;
+      const group = node as unknown as ContainerDirective;
+      if (group.name !== 'code-group') return;
+
+      const blocks = group.children.filter((child): child is Code => child.type === 'code');
+      if (blocks.length !== group.children.length) {
+        console.warn(`[CodeGroup] Only fenced code blocks are allowed in :::code-group (${file.path ?? 'markdown'})`);
+      }
+      if (!blocks.length) return;
+
+      const groupId = `code-group-${++groupCount}`;
+      const labels = blocks.map(getTabLabel);
+
+      const tabs: Html = {
+        type: 'html',
+        value: `<div class="code-group-tabs" role="tablist">${labels
+          .map(
+            (label, i) =>
+              `<button type="button" class="code-group-tab" role="tab" id="${groupId}-tab-${i}" aria-controls="${groupId}-panel-${i}" aria-selected="${i === 0}" tabindex="${i === 0 ? 0 : -1}" data-tab="${escapeHtml(label)}">${escapeHtml(label)}</button>`,
+          )
+          .join('')}</div>`,
+      };
+
+      const panels = blocks.map(
+        (block, i) =>
+          ({
+            type: 'containerDirective',
+            name: 'code-group-panel',
+            children: [block],
+            data: {
+              hName: 'div',
+              hProperties: {
+                className: ['code-group-panel'],
+                role: 'tabpanel',
+                id: `${groupId}-panel-${i}`,
+                ariaLabelledby: `${groupId}-tab-${i}`,
+                dataTab: labels[i],
+                hidden: i > 0,
+              },
+            },
+          }) as unknown as RootContent,
+      );
+
+      group.data = { hName: 'div', hProperties: { className: ['code-group'] } };
+      group.children = [tabs, ...panels];
+    });
+  };
+}
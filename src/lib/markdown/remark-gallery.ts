@@ -0,0 +1,71 @@
+/**
+ * Remark plugin to lay out a group of images as a gallery (requires remark-directive)
+ *
+ * :::gallery{layout=masonry columns=3}
+ * ![Sunrise](/img/photos/1.webp "Sunrise over the bay")
+ * ![Harbor](/img/photos/2.webp)
+ * :::
+ *
+ * Layouts: grid (default, equal cells), masonry (columns, original aspect ratios) and carousel (horizontal scroll).
+ * Images are wrapped and captioned by rehype-image-placeholder.ts; image-enhancer.ts lets the lightbox
+ * move between the images of a gallery.
+ */
+
+import type { Data, Image, Root, RootContent } from 'mdast';
+import type { Parent } from 'unist';
+import { visit } from 'unist-util-visit';
+
+export const GALLERY_LAYOUTS = ['grid', 'masonry', 'carousel'] as const;
+
+export type GalleryLayout = (typeof GALLERY_LAYOUTS)[number];
+
+interface ContainerDirective extends Parent {
+  type: 'containerDirective';
+  name: string;
+  attributes?: Record<string, string | null | undefined> | null;
+  children: RootContent[];
+  data?: Data;
+}
+
+function isGalleryLayout(value: unknown): value is GalleryLayout {
+  return GALLERY_LAYOUTS.includes(value as GalleryLayout);
+}
+
+export function remarkGallery() {
+  return (tree: Root, file: { path?: string }) => {
+    visit(tree, (node) => {
+      if (node.type !== 'containerDirective') return;
+      const gallery = node as unknown as ContainerDirective;
+      if (gallery.name !== 'gallery') return;
+
+      const source = file.path ?? 'markdown';
+      const { layout: layoutAttribute, columns: columnsAttribute } = gallery.attributes ?? {};
+      const layout = layoutAttribute ?? 'grid';
+      if (!isGalleryLayout(layout)) {
+        console.warn(`[Gallery] Unknown layout "${layout}", expected ${GALLERY_LAYOUTS.join(', ')} (${source})`);
+      }
+      const columns = Number(columnsAttribute);
+
+      // Images may be written on one line or one per line, both end up in paragraphs
+      const images: Image[] = [];
+      let hasOtherContent = false;
+      visit(gallery as unknown as Root, (child) => {
+        if (child.type === 'image') images.push(child);
+        else if (child.type === 'text' && child.value.trim()) hasOtherContent = true;
+      });
+      if (hasOtherContent) {
+        console.warn(`[Gallery] Only images are allowed in :::gallery (${source})`);
+      }
+      if (!images.length) return;
+
+      gallery.data = {
+        hName: 'div',
+        hProperties: {
+          className: ['markdown-gallery', `markdown-gallery-${isGalleryLayout(layout) ? layout : 'grid'}`],
+          ...(Number.isInteger(columns) && columns > 0 && { style: `--gallery-columns:${columns}` }),
+        },
+      };
+      gallery.children = images as unknown as RootContent[];
+    });
+  };
+}
@@ -1,11 +1,11 @@
 /**
  * Remark plugin to automatically embed standalone links as rich components
- * Detects Twitter/X links and other standalone links in paragraphs
+ * Standalone links matched by an embed provider (tweets, CodePen, YouTube, GitHub...) are rendered by it,
+ * other standalone links become OG preview cards
  * Uses metascraper to fetch OG data at build time for link previews (SSG approach)
- * Implements file-based caching to speed up subsequent builds
+ * Fetched data is cached on disk (see ./link-preview-cache), offline mode renders from the cache only
  */
 
-import fs from 'node:fs';
 import path from 'node:path';
 import type { Link, Paragraph, Root } from 'mdast';
 import metascraper from 'metascraper';
@@ -18,86 +18,104 @@ import metascraperUrl from 'metascraper-url';
 import sanitizeHtml from 'sanitize-html';
 import type { Parent } from 'unist';
 import { visit } from 'unist-util-visit';
-import { classifyLink, isStandaloneLinkParagraph } from './link-utils';
+import { type EmbedProvider, type EmbedProviderName, embedProviders, matchEmbedProvider } from './embed-providers';
+import {
+  isFailedEntry,
+  isFreshEntry,
+  LINK_PREVIEW_CACHE_FILE,
+  LINK_PREVIEW_SNAPSHOT_FILE,
+  type LinkPreviewCache,
+  mergeLinkPreviewCaches,
+  parseCacheKey,
+  readLinkPreviewCache,
+  writeLinkPreviewCache,
+} from './link-preview-cache';
+import { isStandaloneLinkParagraph } from './link-utils';
 
 // ============================================================================
 // OG Data Cache Implementation
 // ============================================================================
 
-const CACHE_DIR = path.join(process.cwd(), '.cache');
-const CACHE_FILE = path.join(CACHE_DIR, 'og-data.json');
-const CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+const DEFAULT_CACHE_TIME = 7 * 24 * 60 * 60; // 7 days in seconds
 
-interface CacheEntry {
-  data: OGData;
-  timestamp: number;
+interface CacheSettings {
+  /** Entry lifetime in milliseconds */
+  maxAge: number;
+  /** Only use cached / snapshot data, never fetch */
+  offline: boolean;
 }
 
-interface CacheData {
-  [url: string]: CacheEntry;
-}
-
-let memoryCache: CacheData | null = null;
+let memoryCache: LinkPreviewCache | null = null;
+/** Whether memoryCache has entries that aren't on disk yet */
+let cacheDirty = false;
 
 /**
- * Load cache from file system
+ * Load the committed snapshot and the local cache (once per build)
  */
-function loadCache(): CacheData {
-  if (memoryCache) return memoryCache;
-
-  try {
-    if (fs.existsSync(CACHE_FILE)) {
-      const content = fs.readFileSync(CACHE_FILE, 'utf-8');
-      memoryCache = JSON.parse(content);
-      return memoryCache ?? {};
-    }
-  } catch (error) {
-    console.warn('[Link Embed] Failed to load cache:', error);
+function loadCache(): LinkPreviewCache {
+  if (!memoryCache) {
+    memoryCache = mergeLinkPreviewCaches(
+      readLinkPreviewCache(path.join(process.cwd(), LINK_PREVIEW_SNAPSHOT_FILE)),
+      readLinkPreviewCache(path.join(process.cwd(), LINK_PREVIEW_CACHE_FILE)),
+    );
   }
-
-  memoryCache = {};
   return memoryCache;
 }
 
 /**
- * Save cache to file system
+ * Write new entries to the local cache file
+ * Called once per document instead of once per fetched link
  */
-function saveCache(cache: CacheData): void {
+function flushCache(): void {
+  if (!memoryCache || !cacheDirty) return;
   try {
-    if (!fs.existsSync(CACHE_DIR)) {
-      fs.mkdirSync(CACHE_DIR, { recursive: true });
-    }
-    fs.writeFileSync(CACHE_FILE, JSON.stringify(cache, null, 2));
-    memoryCache = cache;
+    writeLinkPreviewCache(path.join(process.cwd(), LINK_PREVIEW_CACHE_FILE), memoryCache);
+    cacheDirty = false;
   } catch (error) {
     console.warn('[Link Embed] Failed to save cache:', error);
   }
 }
 
 /**
- * Get cached OG data if valid
+ * Set data in cache (written by the next flushCache)
  */
-function getCachedOGData(url: string): OGData | null {
-  const cache = loadCache();
-  const entry = cache[url];
-
-  if (entry && Date.now() - entry.timestamp < CACHE_TTL) {
-    return entry.data;
-  }
-
-  return null;
+function setCachedData(key: string, data: unknown): void {
+  loadCache()[key] = {
+    data,
+    timestamp: Date.now(),
+  };
+  cacheDirty = true;
 }
 
 /**
- * Set OG data in cache
+ * Get data from the cache, fetching it when missing or expired (never in offline mode)
+ * A failed refetch falls back to the expired data, so a flaky site doesn't lose its preview
  */
-function setCachedOGData(url: string, data: OGData): void {
-  const cache = loadCache();
-  cache[url] = {
-    data,
-    timestamp: Date.now(),
-  };
-  saveCache(cache);
+async function getOrFetchData<T>(
+  key: string,
+  label: string,
+  settings: CacheSettings,
+  fetcher: () => Promise<T | null>,
+): Promise<T | null> {
+  const entry = loadCache()[key];
+  if (entry && (settings.offline || isFreshEntry(entry, settings.maxAge))) {
+    console.log(`[Link Embed] Using cached ${label} for: ${key}`);
+    return entry.data as T;
+  }
+
+  if (settings.offline) {
+    console.warn(`[Link Embed] Offline mode, no cached ${label} for: ${key}`);
+    return null;
+  }
+
+  console.log(`[Link Embed] Fetching ${label} for: ${key}`);
+  const data = await fetcher();
+  if (data === null || isFailedEntry({ data, timestamp: Date.now() })) {
+    if (entry && !isFailedEntry(entry)) return entry.data as T;
+  }
+  // Provider failures (null) aren't cached so the next build retries, OG errors are cached like before
+  if (data !== null) setCachedData(key, data);
+  return data;
 }
 
 interface OGData {
@@ -113,8 +131,13 @@ interface OGData {
 
 interface RemarkLinkEmbedOptions {
   enableTweetEmbed?: boolean;
-  enableCodePenEmbed?: boolean;
   enableOGPreview?: boolean;
+  /** Per-provider toggles (content.embedProviders), all enabled by default */
+  providers?: Partial<Record<EmbedProviderName, boolean>>;
+  /** Cache entry lifetime in seconds (content.previewCacheTime) */
+  cacheTime?: number;
+  /** Never fetch, render from cached and committed snapshot data only (content.previewCacheMode: offline) */
+  offline?: boolean;
 }
 
 // Initialize metascraper with plugins
@@ -256,13 +279,7 @@ function generateLinkPreviewHTML(ogData: OGData): string {
       const pathSegments = urlObj.pathname.split('/').filter((s) => s);
 
       // Special handling for known sites
-      if (domain === 'codepen.io' && pathSegments.length >= 3) {
-        // CodePen: /username/pen/id
-        const username = pathSegments[0];
-        const penId = pathSegments[2];
-        displayText = `CodePen - ${username}`;
-        subtitle = `Pen: ${penId}`;
-      } else if (domain === 'github.com' && pathSegments.length >= 2) {
+      if (domain === 'github.com' && pathSegments.length >= 2) {
         // GitHub: /org/repo
         displayText = `GitHub - ${pathSegments.slice(0, 2).join('/')}`;
       } else if (pathSegments.length > 0) {
@@ -336,18 +353,35 @@ function generateLinkPreviewHTML(ogData: OGData): string {
 }
 
 /**
- * Generate HTML for CodePen embed using official embed format
- * https://blog.codepen.io/documentation/embedded-pens/
+ * Render a provider embed, fetching (and caching) its metadata first
  */
-function generateCodePenEmbedHTML(user: string, penId: string, url: string): string {
-  // Sanitize inputs
-  const safeUser = sanitizeText(user);
-  const safePenId = sanitizeText(penId);
-  const safeUrl = sanitizeUrl(url);
-
-  return `<p class="codepen" data-height="400" data-default-tab="result" data-slug-hash="${safePenId}" data-user="${safeUser}">
-  <span>See the Pen <a href="${safeUrl}">${safePenId}</a> by ${safeUser} (<a href="https://codepen.io/${safeUser}">@${safeUser}</a>) on <a href="https://codepen.io">CodePen</a>.</span>
-</p>`;
+async function generateProviderEmbedHTML(
+  provider: EmbedProvider,
+  match: unknown,
+  url: string,
+  settings: CacheSettings,
+): Promise<string> {
+  const { fetchMetadata } = provider;
+  const metadata = fetchMetadata
+    ? await getOrFetchData(`${provider.name}:${url}`, `${provider.name} data`, settings, () => fetchMetadata(match))
+    : null;
+
+  return provider.render({ url, match, metadata });
+}
+
+/**
+ * Fetch fresh data for a cache key (OG data, or provider metadata for `${provider}:${url}` keys)
+ * Used by `koharu cache refresh`
+ * @returns null if the provider no longer handles the URL or the fetch failed
+ */
+export async function fetchLinkPreviewData(key: string): Promise<unknown> {
+  const { provider: name, url } = parseCacheKey(key);
+  if (!name) return fetchOGData(url);
+
+  const provider = embedProviders.find((p) => p.name === name);
+  const match = provider?.fetchMetadata ? provider.match(new URL(url)) : null;
+  if (!provider?.fetchMetadata || !match) return null;
+  return provider.fetchMetadata(match);
 }
 
 /**
@@ -355,7 +389,15 @@ function generateCodePenEmbedHTML(user: string, penId: string, url: string): str
  * This version uses metascraper to fetch OG data at build time
  */
 export function remarkLinkEmbed(options: RemarkLinkEmbedOptions = {}) {
-  const { enableTweetEmbed = true, enableCodePenEmbed = true, enableOGPreview = true } = options;
+  const {
+    enableTweetEmbed = true,
+    enableOGPreview = true,
+    providers = {},
+    cacheTime = DEFAULT_CACHE_TIME,
+    offline = false,
+  } = options;
+  const enabledProviders = { ...providers, tweet: enableTweetEmbed && providers.tweet !== false };
+  const settings: CacheSettings = { maxAge: cacheTime * 1000, offline };
 
   return async (tree: Root) => {
     const nodesToReplace: Array<{
@@ -363,12 +405,6 @@ export function remarkLinkEmbed(options: RemarkLinkEmbedOptions = {}) {
       index: number;
       parent: Parent;
       url: string;
-      type: string;
-      tweetId?: string;
-      codepen?: {
-        user: string;
-        penId: string;
-      };
     }> = [];
 
     // First pass: identify standalone link paragraphs
@@ -377,51 +413,33 @@ export function remarkLinkEmbed(options: RemarkLinkEmbedOptions = {}) {
 
       if (isStandaloneLinkParagraph(node)) {
         const linkNode = node.children[0] as Link;
-        const url = linkNode.url;
-        const linkInfo = classifyLink(url);
-
         nodesToReplace.push({
           node,
           index,
           parent,
-          url,
-          type: linkInfo.type,
-          tweetId: linkInfo.tweetId,
-          codepen: linkInfo.codepen,
+          url: linkNode.url,
         });
       }
     });
 
-    // Second pass: fetch OG data in parallel for better performance
-    const fetchPromises = nodesToReplace.map(async ({ url, type, tweetId, codepen }) => {
-      if (type === 'tweet' && enableTweetEmbed && tweetId) {
+    // Second pass: fetch provider metadata and OG data in parallel for better performance
+    const fetchPromises = nodesToReplace.map(async ({ url }) => {
+      const matched = matchEmbedProvider(url, enabledProviders);
+      if (matched) {
+        console.log(`[Link Embed] Embedding ${matched.provider.name}: ${url}`);
         return {
           type: 'html' as const,
-          value: `<div data-tweet-embed data-tweet-id="${tweetId}"></div>`,
-        };
-      } else if (type === 'codepen' && enableCodePenEmbed && codepen) {
-        console.log(`[Link Embed] Embedding CodePen: ${codepen.user}/${codepen.penId}`);
-        const html = generateCodePenEmbedHTML(codepen.user, codepen.penId, url);
-        return {
-          type: 'html' as const,
-          value: html,
+          value: await generateProviderEmbedHTML(matched.provider, matched.match, url, settings),
         };
-      } else if (type === 'general' && enableOGPreview) {
-        // Check cache first
-        const cachedData = getCachedOGData(url);
-        if (cachedData) {
-          console.log(`[Link Embed] Using cached OG data for: ${url}`);
-          const html = generateLinkPreviewHTML(cachedData);
-          return {
-            type: 'html' as const,
-            value: html,
-          };
-        }
+      }
 
-        // Fetch and cache
-        console.log(`[Link Embed] Fetching OG data for: ${url}`);
-        const ogData = await fetchOGData(url);
-        setCachedOGData(url, ogData);
+      if (enableOGPreview) {
+        // Cached data, or fetch and cache; offline misses render the fallback card
+        const ogData = (await getOrFetchData(url, 'OG data', settings, () => fetchOGData(url))) ?? {
+          originUrl: url,
+          url,
+          error: 'Not cached',
+        };
         const html = generateLinkPreviewHTML(ogData);
         return {
           type: 'html' as const,
@@ -433,6 +451,7 @@ export function remarkLinkEmbed(options: RemarkLinkEmbedOptions = {}) {
 
     // Wait for all fetches to complete in parallel
     const embedNodes = await Promise.all(fetchPromises);
+    flushCache();
 
     // Replace nodes with their embed counterparts
     nodesToReplace.forEach(({ index, parent }, i) => {
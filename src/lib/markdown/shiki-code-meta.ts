@@ -0,0 +1,91 @@
+/**
+ * Shiki transformers for code block meta strings and notation comments
+ * - ```ts title="foo.ts" {3-5} showLineNumbers  (showLineNumbers{10} starts at line 10)
+ * - ```ts playground  (runnable in the browser, see src/lib/playground.ts)
+ * - // [!code ++], [!code --], [!code highlight], [!code focus], [!code error], [!code warning]
+ */
+
+import {
+  transformerMetaHighlight,
+  transformerNotationDiff,
+  transformerNotationErrorLevel,
+  transformerNotationFocus,
+  transformerNotationHighlight,
+} from '@shikijs/transformers';
+import type { ShikiConfig } from 'astro';
+
+type ShikiTransformer = NonNullable<ShikiConfig['transformers']>[number];
+
+export interface CodeMeta {
+  title?: string;
+  showLineNumbers: boolean;
+  startLine: number;
+  hasHighlights: boolean;
+  playground: boolean;
+}
+
+/** Languages the playground can transpile and run */
+export const PLAYGROUND_LANGUAGES = ['js', 'javascript', 'ts', 'typescript'];
+
+/** title="..." or title='...' */
+const TITLE_REGEX = /\btitle=(?:"([^"]*)"|'([^']*)')/;
+/** showLineNumbers or showLineNumbers{10} */
+const LINE_NUMBERS_REGEX = /\bshowLineNumbers(?:\{(\d+)\})?/;
+/** {1,3-5}, as parsed by transformerMetaHighlight */
+const HIGHLIGHT_REGEX = /(?:^|\s)\{[\d,\s-]+\}/;
+/** Bare playground flag */
+const PLAYGROUND_REGEX = /(?:^|\s)playground(?:\s|$)/;
+
+/**
+ * Parse the meta string after the fence language
+ */
+export function parseCodeMeta(raw = ''): CodeMeta {
+  const title = raw.match(TITLE_REGEX);
+  const lineNumbers = raw.match(LINE_NUMBERS_REGEX);
+  return {
+    title: title ? (title[1] ?? title[2]) : undefined,
+    showLineNumbers: Boolean(lineNumbers),
+    startLine: lineNumbers?.[1] ? Number(lineNumbers[1]) : 1,
+    hasHighlights: HIGHLIGHT_REGEX.test(raw),
+    playground: PLAYGROUND_REGEX.test(raw),
+  };
+}
+
+/**
+ * Put title, line numbers and the playground flag on the <pre>, where code-block-enhancer picks them up
+ * Line numbers are a CSS counter, so they are not part of the copied text
+ */
+export function transformerCodeMeta(): ShikiTransformer {
+  return {
+    name: 'code-meta',
+    pre(node) {
+      const { title, showLineNumbers, startLine, hasHighlights, playground } = parseCodeMeta(this.options.meta?.__raw);
+      if (title) node.properties['data-title'] = title;
+      if (playground) {
+        if (PLAYGROUND_LANGUAGES.includes(this.options.lang)) node.properties['data-playground'] = '';
+        else console.warn(`[CodeMeta] playground only supports JavaScript and TypeScript, got "${this.options.lang}"`);
+      }
+      // transformerMetaHighlight marks the lines but not the <pre>, unlike the notation transformers
+      if (hasHighlights) this.addClassToHast(node, 'has-highlighted');
+      if (showLineNumbers) {
+        this.addClassToHast(node, 'line-numbers');
+        const style = String(node.properties.style ?? '').replace(/;*\s*$/, '');
+        node.properties.style = `${style ? `${style};` : ''}counter-reset:line ${startLine - 1}`;
+      }
+    },
+  };
+}
+
+/**
+ * All code block transformers, in the order they should run
+ */
+export function codeBlockTransformers(): ShikiTransformer[] {
+  return [
+    transformerCodeMeta(),
+    transformerMetaHighlight(),
+    transformerNotationDiff(),
+    transformerNotationHighlight(),
+    transformerNotationFocus(),
+    transformerNotationErrorLevel(),
+  ];
+}
@@ -0,0 +1,117 @@
+/**
+ * Math Block Enhancer
+ * Adds the code block toolbar (copy TeX, fullscreen) to display equations rendered by KaTeX at build time
+ */
+
+import { copyToClipboard, createToolbar, type ToolbarOptions } from './code-block-enhancer';
+
+export interface MathBlockInfo {
+  element: HTMLElement;
+  /** TeX source from the MathML annotation emitted by KaTeX */
+  tex: string;
+  /** Rendered KaTeX HTML */
+  html: string;
+}
+
+/**
+ * Extract TeX source of a KaTeX-rendered equation
+ */
+export function extractTex(mathElement: HTMLElement): string {
+  return mathElement.querySelector('annotation[encoding="application/x-tex"]')?.textContent?.trim() ?? '';
+}
+
+/**
+ * Create checkmark SVG for copy success state
+ */
+function createCheckmarkSvg(): string {
+  const id = `checkmark-math-${Date.now()}`;
+  return `
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24">
+      <mask id="${id}">
+        <g fill="none" stroke="#fff" stroke-dasharray="24" stroke-dashoffset="24" stroke-linecap="round" stroke-linejoin="round" stroke-width="2">
+          <path d="M2 13.5l4 4l10.75 -10.75">
+            <animate fill="freeze" attributeName="stroke-dashoffset" dur="0.4s" values="24;0"/>
+          </path>
+          <path stroke="#000" stroke-width="6" d="M7.5 13.5l4 4l10.75 -10.75">
+            <animate fill="freeze" attributeName="stroke-dashoffset" begin="0.4s" dur="0.4s" values="24;0"/>
+          </path>
+          <path d="M7.5 13.5l4 4l10.75 -10.75">
+            <animate fill="freeze" attributeName="stroke-dashoffset" begin="0.4s" dur="0.4s" values="24;0"/>
+          </path>
+        </g>
+      </mask>
+      <rect width="24" height="24" fill="currentColor" mask="url(#${id})"/>
+    </svg>`;
+}
+
+/**
+ * Enhance single display equation (.katex-display)
+ */
+export function enhanceMathBlock(mathElement: HTMLElement, options: ToolbarOptions = {}): MathBlockInfo | null {
+  // Avoid duplicate enhancement
+  if (mathElement.dataset.enhanced === 'true') {
+    return null;
+  }
+
+  const tex = extractTex(mathElement);
+  const html = mathElement.innerHTML;
+
+  // Create wrapper container
+  const wrapper = document.createElement('div');
+  wrapper.className = 'math-block-wrapper';
+
+  mathElement.parentNode?.insertBefore(wrapper, mathElement);
+  wrapper.appendChild(mathElement);
+
+  // Insert toolbar before the equation (as sibling node)
+  mathElement.insertAdjacentHTML('beforebegin', createToolbar('tex', { ...options, copyLabel: 'Copy TeX' }));
+
+  // Mark as enhanced
+  mathElement.dataset.enhanced = 'true';
+
+  return { element: mathElement, tex, html };
+}
+
+export interface MathEnhanceOptions {
+  onFullscreen?: (info: MathBlockInfo) => void;
+  enableCopy?: boolean;
+  enableFullscreen?: boolean;
+}
+
+/**
+ * Enhance all display equations
+ */
+export function enhanceAllMathBlocks(container: Element, options: MathEnhanceOptions = {}): void {
+  const { enableCopy = true, enableFullscreen = true } = options;
+  const mathBlocks = container.querySelectorAll<HTMLElement>('.katex-display');
+
+  mathBlocks.forEach((mathElement) => {
+    const info = enhanceMathBlock(mathElement, { enableCopy, enableFullscreen });
+    if (!info) return;
+
+    const wrapper = mathElement.parentElement;
+
+    // Bind copy button
+    const copyBtn = enableCopy ? wrapper?.querySelector('.code-block-copy') : null;
+    if (copyBtn) {
+      const originalSvg = copyBtn.innerHTML;
+      copyBtn.addEventListener('click', async () => {
+        const success = await copyToClipboard(info.tex);
+        if (success) {
+          copyBtn.classList.add('copied');
+          copyBtn.innerHTML = createCheckmarkSvg();
+          setTimeout(() => {
+            copyBtn.classList.remove('copied');
+            copyBtn.innerHTML = originalSvg;
+          }, 2000);
+        }
+      });
+    }
+
+    // Bind fullscreen button
+    const fullscreenBtn = enableFullscreen ? wrapper?.querySelector('.code-block-fullscreen') : null;
+    fullscreenBtn?.addEventListener('click', () => {
+      options.onFullscreen?.(info);
+    });
+  });
+}
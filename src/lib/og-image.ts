@@ -0,0 +1,267 @@
+/**
+ * Open Graph image utilities
+ *
+ * Renders 1200x630 social preview PNGs at build time with sharp:
+ * cover image (or its LQIP gradient) + dark scrim + breadcrumb/title text + site avatar.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Routes } from '@constants/router';
+import { defaultCoverList, siteConfig } from '@constants/site-config';
+import { getLocalePrefix, getPostLocale } from '@lib/i18n';
+import { getLqipColors, isExternalImage } from '@lib/lqip';
+import sharp from 'sharp';
+import type { BlogPost } from 'types/blog';
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/** Brand gradient used when neither cover nor LQIP data is available */
+const FALLBACK_COLORS: [string, string, string] = ['#ed6ea0', '#ec8c69', '#f5b0a0'];
+
+const PADDING = 80;
+const TITLE_FONT_SIZE = 64;
+const TITLE_LINE_HEIGHT = 80;
+const TITLE_MAX_LINES = 3;
+const AVATAR_SIZE = 88;
+const FONT_FAMILY = "'Noto Sans CJK SC', 'PingFang SC', 'Microsoft YaHei', 'Helvetica Neue', Arial, sans-serif";
+
+export interface OgImageOptions {
+  /** Main title text */
+  title: string;
+  /** Breadcrumb segments shown above the title (e.g., category path) */
+  breadcrumb?: string[];
+  /** Cover image path (relative to public directory) */
+  cover?: string;
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/**
+ * Get OG image path for a post
+ * @example getPostOgImagePath(post) => '/og/post/hello-world.png' or '/og/post/zh/hello-world.png'
+ */
+export function getPostOgImagePath(post: BlogPost): string {
+  const localeSegment = getLocalePrefix(getPostLocale(post)).slice(1);
+  const link = post.data.link ?? post.slug;
+  return `/og${Routes.Post}/${[localeSegment, link].filter(Boolean).join('/')}.png`;
+}
+
+/**
+ * Get OG image path for a category
+ * @param link Category link as produced by getCategoryLinks (e.g., 'note/front-end')
+ * @example getCategoryOgImagePath('note/front-end') => '/og/categories/note/front-end.png'
+ */
+export function getCategoryOgImagePath(link: string): string {
+  return `/og${Routes.Categories}/${link}.png`;
+}
+
+/**
+ * Get OG image path for a tag page
+ */
+export function getTagOgImagePath(tag: string): string {
+  return `/og${Routes.Tags}/${tag.replace(/\//g, '-')}.png`;
+}
+
+/**
+ * Get OG image path for a featured series page
+ */
+export function getSeriesOgImagePath(slug: string): string {
+  return `/og/series/${slug}.png`;
+}
+
+/** Default OG image for pages without a dedicated one */
+export const SITE_OG_IMAGE_PATH = '/og/site.png';
+
+/**
+ * Pick a stable default cover for posts without one
+ * Hashes the slug so the same post always gets the same image across builds
+ */
+export function getStableDefaultCover(seed: string): string {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+  }
+  return defaultCoverList[hash % defaultCoverList.length];
+}
+
+// =============================================================================
+// Text Layout
+// =============================================================================
+
+/**
+ * Escape text for safe inclusion in SVG markup
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+const WIDE_CHAR_PATTERN = /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦]/;
+
+/**
+ * Approximate rendered width of text in em units
+ * CJK glyphs are full-width, latin glyphs average a bit over half an em
+ */
+function measureText(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if (WIDE_CHAR_PATTERN.test(char)) width += 1;
+    else if (/[A-Z0-9mwMW@#%]/.test(char)) width += 0.64;
+    else if (/[ilj.,:;'!|]/.test(char)) width += 0.28;
+    else width += 0.52;
+  }
+  return width;
+}
+
+/**
+ * Wrap text into lines that fit maxWidth (em units)
+ * Latin words are kept intact, CJK text may break between any two characters
+ * Overflowing text is truncated with an ellipsis on the last line
+ */
+function wrapText(text: string, maxWidth: number, maxLines: number): string[] {
+  const tokens = text.match(/[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠]|[^\s⺀-꓏가-힣豈-﫿︰-﹏＀-｠]+\s*|\s+/g) ?? [];
+  const lines: string[] = [];
+  let current = '';
+
+  for (const token of tokens) {
+    if (measureText(`${current}${token}`.trimEnd()) <= maxWidth || !current) {
+      current += token;
+      continue;
+    }
+    lines.push(current.trimEnd());
+    current = token.trimStart();
+    if (lines.length === maxLines) break;
+  }
+  if (current && lines.length < maxLines) lines.push(current.trimEnd());
+
+  const consumed = lines.join('').replace(/\s/g, '').length;
+  if (consumed < text.replace(/\s/g, '').length && lines.length) {
+    let last = lines[lines.length - 1];
+    while (last && measureText(`${last}…`) > maxWidth) last = last.slice(0, -1);
+    lines[lines.length - 1] = `${last.trimEnd()}…`;
+  }
+
+  return lines;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Read an image from the public directory
+ * External images are skipped so builds never depend on the network
+ */
+async function readPublicImage(imagePath?: string): Promise<Buffer | null> {
+  if (!imagePath || isExternalImage(imagePath)) return null;
+  try {
+    return await fs.readFile(path.join(process.cwd(), 'public', imagePath.replace(/^\/+/, '')));
+  } catch {
+    return null;
+  }
+}
+
+function createBackgroundSvg(colors: [string, string, string]): string {
+  const [c1, c2, c3] = colors;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${c1}" />
+      <stop offset="50%" stop-color="${c2}" />
+      <stop offset="100%" stop-color="${c3}" />
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)" />
+</svg>`;
+}
+
+function createOverlaySvg({ title, breadcrumb }: OgImageOptions, hasAvatar: boolean): string {
+  const titleLines = wrapText(title, (OG_IMAGE_WIDTH - PADDING * 2) / TITLE_FONT_SIZE, TITLE_MAX_LINES);
+  const titleBlockHeight = titleLines.length * TITLE_LINE_HEIGHT;
+  const titleTop = (OG_IMAGE_HEIGHT - titleBlockHeight) / 2 + TITLE_FONT_SIZE - 20;
+  const footerY = OG_IMAGE_HEIGHT - PADDING;
+  const footerTextX = hasAvatar ? PADDING + AVATAR_SIZE + 24 : PADDING;
+
+  const breadcrumbText = breadcrumb?.filter(Boolean).join('  /  ') ?? '';
+  const siteHost = siteConfig.site.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+
+  const titleTspans = titleLines
+    .map((line, index) => `<tspan x="${PADDING}" y="${titleTop + index * TITLE_LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}">
+  <defs>
+    <linearGradient id="scrim" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0%" stop-color="#000" stop-opacity="0.35" />
+      <stop offset="100%" stop-color="#000" stop-opacity="0.7" />
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#scrim)" />
+  ${breadcrumbText ? `<text x="${PADDING}" y="${PADDING + 24}" font-family="${FONT_FAMILY}" font-size="30" fill="#fff" fill-opacity="0.85">${escapeXml(breadcrumbText)}</text>` : ''}
+  <text font-family="${FONT_FAMILY}" font-size="${TITLE_FONT_SIZE}" font-weight="700" fill="#fff">${titleTspans}</text>
+  <text x="${footerTextX}" y="${footerY - 48}" font-family="${FONT_FAMILY}" font-size="32" font-weight="700" fill="#fff">${escapeXml(siteConfig.alternate || siteConfig.title)}</text>
+  <text x="${footerTextX}" y="${footerY - 8}" font-family="${FONT_FAMILY}" font-size="24" fill="#fff" fill-opacity="0.75">${escapeXml(siteHost)}</text>
+</svg>`;
+}
+
+async function createAvatar(): Promise<Buffer | null> {
+  const avatar = await readPublicImage(siteConfig.avatar);
+  if (!avatar) return null;
+
+  const radius = AVATAR_SIZE / 2;
+  const mask = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}"><circle cx="${radius}" cy="${radius}" r="${radius}" /></svg>`,
+  );
+
+  return sharp(avatar)
+    .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: 'cover' })
+    .composite([{ input: mask, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Render an OG image as PNG
+ */
+export async function renderOgImage(options: OgImageOptions): Promise<Buffer> {
+  const { cover } = options;
+  const colors = (cover && !isExternalImage(cover) && getLqipColors(cover)) || FALLBACK_COLORS;
+
+  const layers: sharp.OverlayOptions[] = [];
+
+  const coverBuffer = await readPublicImage(cover);
+  if (coverBuffer) {
+    try {
+      layers.push({
+        input: await sharp(coverBuffer).resize(OG_IMAGE_WIDTH, OG_IMAGE_HEIGHT, { fit: 'cover' }).toBuffer(),
+      });
+    } catch (error) {
+      console.warn(`[OG Image] Failed to process cover ${cover}, using gradient fallback:`, error);
+    }
+  }
+
+  const avatar = await createAvatar();
+  layers.push({ input: Buffer.from(createOverlaySvg(options, Boolean(avatar))) });
+  if (avatar) {
+    layers.push({ input: avatar, left: PADDING, top: OG_IMAGE_HEIGHT - PADDING - AVATAR_SIZE });
+  }
+
+  return sharp(Buffer.from(createBackgroundSvg(colors)))
+    .composite(layers)
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Wrap a rendered PNG in an endpoint Response
+ * noindex: link preview crawlers must be able to fetch the image, search engines shouldn't list it
+ * (static builds get the header from the server config, see docker/nginx/default.conf)
+ */
+export function createOgImageResponse(png: Buffer): Response {
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png', 'X-Robots-Tag': 'noindex' },
+  });
+}
@@ -0,0 +1,184 @@
+/**
+ * Code Playground
+ * Runs ```ts playground``` blocks in a sandboxed iframe with an editable copy of the code and captured console output
+ * TypeScript is transpiled in the browser with sucrase, loaded on first run
+ */
+
+import type { CodeBlockInfo } from './code-block-enhancer';
+
+type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+interface PlaygroundMessage {
+  source: 'code-playground';
+  level: ConsoleLevel;
+  args: string[];
+}
+
+/** Message listener of each playground's current sandbox, removed on re-run and page change */
+const activeListeners = new Map<HTMLElement, (e: MessageEvent) => void>();
+
+/**
+ * Runs inside the sandbox: forwards console calls and uncaught errors to the page, then runs the posted code
+ */
+const SANDBOX_SCRIPT = `
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || String(value);
+  if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+  if (value === undefined || typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+  try {
+    return JSON.stringify(value, (_, v) => (v instanceof Map ? Object.fromEntries(v) : v instanceof Set ? [...v] : v), 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+const send = (level, args) => parent.postMessage({ source: 'code-playground', level, args: args.map(format) }, '*');
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+  const original = console[level];
+  console[level] = (...args) => {
+    send(level, args);
+    original.apply(console, args);
+  };
+}
+addEventListener('error', (e) => send('error', [e.error ?? e.message]));
+addEventListener('unhandledrejection', (e) => send('error', ['Uncaught (in promise)', e.reason]));
+addEventListener('message', (e) => {
+  if (e.data?.source !== 'code-playground-host') return;
+  const script = document.createElement('script');
+  script.type = 'module';
+  script.textContent = e.data.code;
+  document.body.appendChild(script);
+});
+`;
+
+function isTypeScript(language: string): boolean {
+  return language === 'ts' || language === 'typescript';
+}
+
+/**
+ * Transpile TypeScript to JavaScript (JavaScript is returned as is)
+ */
+async function transpile(code: string, language: string): Promise<string> {
+  if (!isTypeScript(language)) return code;
+  const { transform } = await import('sucrase');
+  return transform(code, { transforms: ['typescript'], disableESTransforms: true }).code;
+}
+
+function appendLine(output: HTMLElement, level: ConsoleLevel, text: string): void {
+  const line = document.createElement('div');
+  line.className = `code-playground-line ${level}`;
+  line.textContent = text;
+  output.appendChild(line);
+  output.scrollTop = output.scrollHeight;
+}
+
+/**
+ * Run code in a fresh sandbox, replacing the previous one (this also stops code that never finishes)
+ */
+async function run(playground: HTMLElement, language: string): Promise<void> {
+  const editor = playground.querySelector<HTMLTextAreaElement>('.code-playground-editor');
+  const output = playground.querySelector<HTMLElement>('.code-playground-console');
+  if (!editor || !output) return;
+
+  playground.querySelector('iframe')?.remove();
+  output.replaceChildren();
+
+  let code: string;
+  try {
+    code = await transpile(editor.value, language);
+  } catch (error) {
+    appendLine(output, 'error', error instanceof Error ? error.message : String(error));
+    return;
+  }
+
+  const iframe = document.createElement('iframe');
+  // No allow-same-origin: the code can't reach the page, its cookies or storage
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.className = 'code-playground-frame';
+  iframe.title = 'Code playground sandbox';
+  iframe.srcdoc = `<!doctype html><html><body><script>${SANDBOX_SCRIPT}</script></body></html>`;
+
+  const handleMessage = (e: MessageEvent) => {
+    if (e.source !== iframe.contentWindow) return;
+    const data = e.data as PlaygroundMessage;
+    if (data?.source !== 'code-playground') return;
+    appendLine(output, data.level, data.args.join(' '));
+  };
+  const previous = activeListeners.get(playground);
+  if (previous) window.removeEventListener('message', previous);
+  window.addEventListener('message', handleMessage);
+  activeListeners.set(playground, handleMessage);
+  iframe.addEventListener('load', () => {
+    iframe.contentWindow?.postMessage({ source: 'code-playground-host', code }, '*');
+  });
+
+  playground.appendChild(iframe);
+}
+
+/**
+ * Create the editor, console and action buttons below the code block
+ */
+function createPlayground(info: CodeBlockInfo): HTMLElement {
+  const playground = document.createElement('div');
+  playground.className = 'code-playground';
+  playground.innerHTML = `
+    <textarea class="code-playground-editor" spellcheck="false" autocapitalize="off" aria-label="Edit code"></textarea>
+    <div class="code-playground-actions">
+      <button type="button" class="code-playground-button code-playground-run" title="Ctrl + Enter">Run</button>
+      <button type="button" class="code-playground-button code-playground-reset">Reset</button>
+      <span class="code-playground-hint">Console</span>
+    </div>
+    <div class="code-playground-console" role="log" aria-live="polite"></div>
+  `;
+
+  const editor = playground.querySelector<HTMLTextAreaElement>('.code-playground-editor');
+  if (editor) {
+    editor.value = info.code;
+    editor.rows = Math.min(Math.max(info.code.split('\n').length, 4), 20);
+    editor.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        run(playground, info.language);
+      } else if (e.key === 'Tab' && !e.shiftKey) {
+        // Indent instead of leaving the editor
+        e.preventDefault();
+        editor.setRangeText('  ', editor.selectionStart, editor.selectionEnd, 'end');
+      }
+    });
+  }
+
+  playground.querySelector('.code-playground-run')?.addEventListener('click', () => run(playground, info.language));
+  playground.querySelector('.code-playground-reset')?.addEventListener('click', () => {
+    if (editor) editor.value = info.code;
+    run(playground, info.language);
+  });
+
+  return playground;
+}
+
+/**
+ * Open the playground below a code block (first run) and run its code
+ */
+export function runPlayground(info: CodeBlockInfo): void {
+  const wrapper = info.element.parentElement;
+  if (!wrapper) return;
+
+  let playground = wrapper.querySelector<HTMLElement>('.code-playground');
+  if (!playground) {
+    playground = createPlayground(info);
+    wrapper.appendChild(playground);
+  }
+  run(playground, info.language);
+}
+
+function cleanup(): void {
+  for (const listener of activeListeners.values()) {
+    window.removeEventListener('message', listener);
+  }
+  activeListeners.clear();
+}
+
+// Clean up on page transitions
+if (typeof document !== 'undefined') {
+  document.addEventListener('astro:before-swap', cleanup);
+}
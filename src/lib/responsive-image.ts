@@ -0,0 +1,204 @@
+/**
+ * Responsive image utilities
+ *
+ * Generates AVIF/WebP variants of images under public/img at build time with sharp and describes them
+ * as <picture> sources with srcset and intrinsic width/height. Variants are served by
+ * src/pages/img-variants/[...path].ts and cached in .cache/images, keyed by the source file's content hash.
+ *
+ * Used by the rehype image plugin (loaded from astro.config.mjs), so only relative imports are allowed here.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { glob } from 'glob';
+import sharp from 'sharp';
+
+/** Variant widths, an image also gets a variant at its own width when it is smaller than the largest */
+export const RESPONSIVE_IMAGE_WIDTHS = [480, 800, 1200, 1920];
+
+/** Variant formats, in <source> order (browsers pick the first one they support) */
+export const RESPONSIVE_IMAGE_FORMATS = ['avif', 'webp'] as const;
+
+export type ResponsiveImageFormat = (typeof RESPONSIVE_IMAGE_FORMATS)[number];
+
+/** `sizes` of images in post content (the prose column) */
+export const MARKDOWN_IMAGE_SIZES = '(max-width: 768px) 100vw, 800px';
+
+/** Route prefix of generated variants */
+export const IMAGE_VARIANT_ROUTE = '/img-variants';
+
+/** Only images under public/img are processed, like LQIPs */
+const SOURCE_PREFIX = '/img/';
+const SOURCE_GLOB = 'public/img/**/*.{webp,jpg,jpeg,png}';
+const VARIANT_SOURCE_REGEX = /\.(webp|jpe?g|png)$/i;
+
+const CACHE_DIR = path.join(process.cwd(), '.cache/images');
+
+const ENCODE_OPTIONS = {
+  avif: { quality: 55, effort: 2 },
+  webp: { quality: 75 },
+} satisfies Record<ResponsiveImageFormat, object>;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ResponsiveImageSource {
+  /** MIME type, e.g. image/avif */
+  type: string;
+  srcset: string;
+}
+
+export interface ResponsiveImage extends ImageSize {
+  /** Original image, the <img> fallback */
+  src: string;
+  /** One <source> per format, empty for images without variants (e.g. GIFs) */
+  sources: ResponsiveImageSource[];
+}
+
+export interface ImageVariant {
+  /** Public path of the variant, e.g. /img-variants/cover/1-800w.avif */
+  path: string;
+  /** Source image path, e.g. /img/cover/1.webp */
+  src: string;
+  width: number;
+  format: ResponsiveImageFormat;
+}
+
+const sizeCache = new Map<string, Promise<ImageSize | null>>();
+const hashCache = new Map<string, Promise<string>>();
+
+/**
+ * Whether an image path points into public/img (external URLs and other folders are left alone)
+ */
+export function isLocalImage(src: string): boolean {
+  return src.startsWith(SOURCE_PREFIX) && !src.includes('..');
+}
+
+function getSourceFile(src: string): string {
+  return path.join(process.cwd(), 'public', decodeURI(src.split(/[?#]/)[0]));
+}
+
+/**
+ * Get the displayed size of a public/img image (EXIF rotation applied)
+ * @returns null if the file doesn't exist or isn't an image
+ */
+export function getImageSize(src: string): Promise<ImageSize | null> {
+  if (!isLocalImage(src)) return Promise.resolve(null);
+
+  let size = sizeCache.get(src);
+  if (!size) {
+    size = sharp(getSourceFile(src))
+      .metadata()
+      .then(({ width, height, orientation }) => {
+        if (!width || !height) return null;
+        // Orientations 5-8 are rotated by 90°
+        return orientation && orientation >= 5 ? { width: height, height: width } : { width, height };
+      })
+      .catch(() => null);
+    sizeCache.set(src, size);
+  }
+  return size;
+}
+
+/**
+ * Variant widths for an image, never upscaled
+ */
+export function getVariantWidths(width: number): number[] {
+  const widths = RESPONSIVE_IMAGE_WIDTHS.filter((w) => w < width);
+  const largest = Math.min(width, RESPONSIVE_IMAGE_WIDTHS[RESPONSIVE_IMAGE_WIDTHS.length - 1]);
+  if (!widths.includes(largest)) widths.push(largest);
+  return widths;
+}
+
+/**
+ * Public path of a variant
+ * @example getVariantPath('/img/cover/1.webp', 800, 'avif') => '/img-variants/cover/1-800w.avif'
+ */
+export function getVariantPath(src: string, width: number, format: ResponsiveImageFormat): string {
+  const name = src.slice(SOURCE_PREFIX.length).replace(VARIANT_SOURCE_REGEX, '');
+  return `${IMAGE_VARIANT_ROUTE}/${name}-${width}w.${format}`;
+}
+
+/**
+ * Describe a public/img image as <picture> sources
+ * @returns null for external or missing images
+ */
+export async function getResponsiveImage(src: string): Promise<ResponsiveImage | null> {
+  const size = await getImageSize(src);
+  if (!size) return null;
+
+  const hasVariants = VARIANT_SOURCE_REGEX.test(src);
+  const widths = getVariantWidths(size.width);
+  return {
+    src,
+    ...size,
+    sources: hasVariants
+      ? RESPONSIVE_IMAGE_FORMATS.map((format) => ({
+          type: `image/${format}`,
+          srcset: widths.map((width) => `${getVariantPath(src, width, format)} ${width}w`).join(', '),
+        }))
+      : [],
+  };
+}
+
+/**
+ * List every variant of every image under public/img (used by the variant route's getStaticPaths)
+ */
+export async function listImageVariants(): Promise<ImageVariant[]> {
+  const files = await glob(SOURCE_GLOB, { cwd: process.cwd(), posix: true });
+  const variants: ImageVariant[] = [];
+
+  for (const file of files.sort()) {
+    const src = `/${file.replace(/^public\//, '')}`;
+    const size = await getImageSize(src);
+    if (!size) continue;
+
+    for (const width of getVariantWidths(size.width)) {
+      for (const format of RESPONSIVE_IMAGE_FORMATS) {
+        variants.push({ path: getVariantPath(src, width, format), src, width, format });
+      }
+    }
+  }
+
+  return variants;
+}
+
+function getContentHash(file: string): Promise<string> {
+  let hash = hashCache.get(file);
+  if (!hash) {
+    hash = fs.readFile(file).then((buffer) => createHash('sha1').update(buffer).digest('hex').slice(0, 16));
+    hashCache.set(file, hash);
+  }
+  return hash;
+}
+
+/**
+ * Encode a variant, reusing the cached file when the source hasn't changed
+ */
+export async function renderImageVariant({ src, width, format }: ImageVariant): Promise<Buffer> {
+  const file = getSourceFile(src);
+  const cacheFile = path.join(CACHE_DIR, `${await getContentHash(file)}-${width}w.${format}`);
+
+  try {
+    return await fs.readFile(cacheFile);
+  } catch {
+    // Not cached yet
+  }
+
+  const buffer = await sharp(file)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .toFormat(format, ENCODE_OPTIONS[format])
+    .toBuffer();
+
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(cacheFile, buffer);
+  } catch (error) {
+    console.warn('[Responsive Image] Failed to cache variant:', error);
+  }
+  return buffer;
+}
@@ -1,4 +1,5 @@
 import { Routes } from '@constants/router';
+import { getLocalePrefix, getPostLocale, stripLocalePrefix } from '@lib/i18n';
 import type { BlogPost } from 'types/blog';
 
 export type RouteParams<T extends Routes> = T extends Routes.Post ? BlogPost | undefined : undefined;
@@ -8,7 +9,8 @@ export function routeBuilder<T extends Routes>(route: T, param: RouteParams<type
   if (!param) return href;
   switch (route) {
     case Routes.Post:
-      href += `/${param?.data?.link ?? param?.slug}`;
+      // Posts outside the default locale live under a locale prefix, e.g. /zh/post/xxx
+      href = `${getLocalePrefix(getPostLocale(param))}${href}/${param?.data?.link ?? param?.slug}`;
       break;
     default:
       break;
@@ -16,4 +18,12 @@ export function routeBuilder<T extends Routes>(route: T, param: RouteParams<type
   return href;
 }
 
+/**
+ * Check if a pathname is a post page (with or without locale prefix)
+ * @example isPostPath('/zh/post/hello') => true
+ */
+export function isPostPath(pathname: string): boolean {
+  return stripLocalePrefix(pathname).startsWith(`${Routes.Post}/`);
+}
+
 export const showDirRoutes = [Routes.Post];
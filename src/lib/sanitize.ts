@@ -1,14 +1,16 @@
 import sanitizeHtml from 'sanitize-html';
 
+/**
+ * Remove characters that are not allowed in XML documents (feeds, sitemaps)
+ * @see https://stackoverflow.com/questions/12229572/php-generated-xml-shows-invalid-char-value-27-message
+ */
+export const stripInvalidXmlChars = (text: string): string =>
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: Intentional - filtering invalid XML characters
+  text.replace(/[^\x09\x0A\x0D\x20-\xFF\x85\xA0-\uD7FF\uE000-\uFDCF\uFDE0-\uFFFD]/gm, '');
+
 export const getSanitizeHtml = (html: string) => {
   return sanitizeHtml(html, {
-    // https://stackoverflow.com/questions/12229572/php-generated-xml-shows-invalid-char-value-27-message
-    textFilter: (text) =>
-      text.replace(
-        // biome-ignore lint/suspicious/noControlCharactersInRegex: Intentional - filtering invalid XML characters
-        /[^\x09\x0A\x0D\x20-\xFF\x85\xA0-\uD7FF\uE000-\uFDCF\uFDE0-\uFFFD]/gm,
-        '',
-      ),
+    textFilter: stripInvalidXmlChars,
     allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img']),
   });
 };
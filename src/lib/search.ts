@@ -0,0 +1,144 @@
+/**
+ * Client-side full-text search on the Pagefind JS API
+ *
+ * The index is built after `astro build` by astro-pagefind and only covers posts
+ * (PostLayout marks the article with data-pagefind-body). Facets come from the
+ * data-pagefind-filter elements PostLayout renders from the post frontmatter.
+ * In `astro dev` the bundle of the last build is served; without one, loading fails.
+ */
+
+/** Facets indexed for every post, in display order */
+export const SEARCH_FILTERS = ['category', 'tag', 'series', 'year'] as const;
+
+export type SearchFilterName = (typeof SEARCH_FILTERS)[number];
+
+/** Selected value per facet */
+export type SearchFilters = Partial<Record<SearchFilterName, string>>;
+
+/** Facet values with their result counts */
+export type SearchFilterCounts = Partial<Record<SearchFilterName, Record<string, number>>>;
+
+export interface SearchSubResult {
+  title: string;
+  url: string;
+  /** Excerpt HTML, matches wrapped in <mark> */
+  excerpt: string;
+}
+
+export interface SearchResultData {
+  url: string;
+  /** Excerpt HTML, matches wrapped in <mark> */
+  excerpt: string;
+  meta: { title?: string; date?: string; image?: string };
+  filters: Partial<Record<SearchFilterName, string[]>>;
+  /** Matching sections, linked to their headings */
+  sub_results: SearchSubResult[];
+}
+
+export interface SearchResult {
+  id: string;
+  data: () => Promise<SearchResultData>;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  /** Facet counts among the results */
+  filters: SearchFilterCounts;
+}
+
+interface Pagefind {
+  options: (options: Record<string, unknown>) => Promise<void>;
+  init: () => Promise<void>;
+  filters: () => Promise<SearchFilterCounts>;
+  search: (term: string | null, options?: Record<string, unknown>) => Promise<SearchResponse>;
+  debouncedSearch: (
+    term: string | null,
+    options?: Record<string, unknown>,
+    debounceTimeoutMs?: number,
+  ) => Promise<SearchResponse | null>;
+}
+
+/** Search input debounce */
+const SEARCH_DEBOUNCE_MS = 200;
+
+let pagefindPromise: Promise<Pagefind> | null = null;
+
+/**
+ * Load and initialize the Pagefind bundle (once)
+ */
+export function loadPagefind(): Promise<Pagefind> {
+  if (!pagefindPromise) {
+    const bundlePath = `${import.meta.env.BASE_URL.replace(/\/$/, '')}/pagefind/`;
+    pagefindPromise = import(/* @vite-ignore */ `${bundlePath}pagefind.js`)
+      .then(async (pagefind: Pagefind) => {
+        await pagefind.options({ bundlePath, excerptLength: 24 });
+        await pagefind.init();
+        return pagefind;
+      })
+      .catch((error) => {
+        // Allow retrying, e.g. after building the site in dev
+        pagefindPromise = null;
+        throw error;
+      });
+  }
+  return pagefindPromise;
+}
+
+/**
+ * Convert selected facets to Pagefind filters (every facet must match)
+ */
+function toPagefindFilters(filters: SearchFilters): Record<string, string> {
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => Boolean(value))) as Record<string, string>;
+}
+
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return Object.values(filters).some(Boolean);
+}
+
+/**
+ * Search posts by keywords and/or facets
+ * Without keywords, every post matching the facets is returned, newest first
+ * @returns null when superseded by a newer search
+ */
+export async function searchPosts(query: string, filters: SearchFilters): Promise<SearchResponse | null> {
+  const pagefind = await loadPagefind();
+  const term = query.trim() || null;
+  return pagefind.debouncedSearch(
+    term,
+    { filters: toPagefindFilters(filters), ...(!term && { sort: { date: 'desc' } }) },
+    SEARCH_DEBOUNCE_MS,
+  );
+}
+
+/**
+ * All facet values of the index with their post counts
+ */
+export async function getSearchFilters(): Promise<SearchFilterCounts> {
+  const pagefind = await loadPagefind();
+  return pagefind.filters();
+}
+
+/**
+ * Read the query and facets of a /search?q=&tag= URL
+ */
+export function parseSearchParams(params: URLSearchParams): { query: string; filters: SearchFilters } {
+  const filters: SearchFilters = {};
+  for (const name of SEARCH_FILTERS) {
+    const value = params.get(name)?.trim();
+    if (value) filters[name] = value;
+  }
+  return { query: params.get('q')?.trim() ?? '', filters };
+}
+
+/**
+ * Build the search params of a /search URL, the inverse of parseSearchParams
+ */
+export function toSearchParams(query: string, filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.trim()) params.set('q', query.trim());
+  for (const name of SEARCH_FILTERS) {
+    const value = filters[name];
+    if (value) params.set(name, value);
+  }
+  return params;
+}
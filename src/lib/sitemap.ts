@@ -0,0 +1,173 @@
+/**
+ * Sitemap utilities
+ *
+ * Collects every indexable URL (posts, paginated lists, categories, tags and featured series)
+ * and renders them as sitemap XML, splitting into a sitemap index once a single file would be too large.
+ */
+
+import { PAGINATION } from '@constants/layout';
+import { getSeriesPath, Routes } from '@constants/router';
+import {
+  getCategoryByLink,
+  getCategoryLinks,
+  getCategoryList,
+  getEnabledSeries,
+  getNonFeaturedPosts,
+  getPostIndex,
+  getPostsByCategoryPath,
+  getPostsBySeriesSlug,
+  getSortedPosts,
+} from '@lib/content';
+import { routeBuilder } from '@lib/route';
+import type { BlogPost } from 'types/blog';
+
+/**
+ * Maximum URLs per sitemap file
+ * The protocol allows 50,000; staying below it leaves headroom for pages added by hand
+ */
+export const SITEMAP_CHUNK_SIZE = 45000;
+
+export interface SitemapEntry {
+  /** Path relative to the site root */
+  path: string;
+  lastmod?: Date;
+}
+
+/**
+ * Get the last modification date of a post (`updated` falls back to `date`)
+ */
+function getPostLastmod(post: BlogPost): Date {
+  return post.data.updated ?? post.data.date;
+}
+
+/**
+ * Get the latest modification date across posts
+ */
+function getLatestLastmod(posts: BlogPost[]): Date | undefined {
+  return posts.reduce<Date | undefined>((latest, post) => {
+    const lastmod = getPostLastmod(post);
+    return !latest || lastmod > latest ? lastmod : latest;
+  }, undefined);
+}
+
+/**
+ * Collect all sitemap entries
+ * Drafts are already excluded from getSortedPosts in production builds
+ */
+export async function getSitemapEntries(): Promise<SitemapEntry[]> {
+  const posts = await getSortedPosts();
+  const latest = getLatestLastmod(posts);
+  const entries: SitemapEntry[] = [];
+
+  // Static pages
+  entries.push({ path: Routes.Home, lastmod: latest });
+  for (const route of [Routes.Archives, Routes.Categories, Routes.Tags, Routes.Friends, Routes.About]) {
+    entries.push({ path: route, lastmod: route === Routes.Friends || route === Routes.About ? undefined : latest });
+  }
+
+  // Paginated post list (/posts, /posts/2, ...), mirrors posts/[...page].astro
+  const listPosts = await getNonFeaturedPosts();
+  const pageCount = Math.max(1, Math.ceil(listPosts.length / PAGINATION.pageSize));
+  for (let page = 1; page <= pageCount; page++) {
+    const pagePosts = listPosts.slice((page - 1) * PAGINATION.pageSize, page * PAGINATION.pageSize);
+    entries.push({ path: page === 1 ? '/posts' : `/posts/${page}`, lastmod: getLatestLastmod(pagePosts) });
+  }
+
+  // Posts
+  for (const post of posts) {
+    entries.push({ path: routeBuilder(Routes.Post, post), lastmod: getPostLastmod(post) });
+  }
+
+  // Categories
+  const { categories } = await getCategoryList();
+  for (const link of getCategoryLinks(categories, '')) {
+    const categoryPosts = await getPostsByCategoryPath(getCategoryByLink(categories, link)?.path ?? []);
+    entries.push({ path: `${Routes.Categories}/${link}`, lastmod: getLatestLastmod(categoryPosts) });
+  }
+
+  // Tags
+  const { byTag } = await getPostIndex();
+  for (const [tag, tagged] of byTag) {
+    entries.push({ path: `${Routes.Tags}/${tag.replace(/\//g, '-')}`, lastmod: getLatestLastmod(tagged) });
+  }
+
+  // Featured series
+  for (const series of getEnabledSeries()) {
+    const seriesPosts = await getPostsBySeriesSlug(series.slug);
+    entries.push({ path: getSeriesPath(series.slug), lastmod: getLatestLastmod(seriesPosts) });
+  }
+
+  return entries;
+}
+
+/**
+ * Split entries into sitemap-sized chunks
+ */
+export function chunkSitemapEntries(entries: SitemapEntry[]): SitemapEntry[][] {
+  const chunks: SitemapEntry[][] = [];
+  for (let i = 0; i < entries.length; i += SITEMAP_CHUNK_SIZE) {
+    chunks.push(entries.slice(i, i + SITEMAP_CHUNK_SIZE));
+  }
+  return chunks.length ? chunks : [[]];
+}
+
+/**
+ * Get path of a sitemap chunk (1-based)
+ * @example getSitemapChunkPath(1) => '/sitemap-1.xml'
+ */
+export function getSitemapChunkPath(index: number): string {
+  return `/sitemap-${index}.xml`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function formatLastmod(date?: Date): string {
+  return date ? `<lastmod>${date.toISOString()}</lastmod>` : '';
+}
+
+/**
+ * Render a <urlset> sitemap
+ */
+export function renderUrlset(entries: SitemapEntry[], site: URL): string {
+  const urls = entries
+    .map((entry) => `  <url><loc>${escapeXml(new URL(entry.path, site).href)}</loc>${formatLastmod(entry.lastmod)}</url>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>
+`;
+}
+
+/**
+ * Render a <sitemapindex> referencing each chunk
+ */
+export function renderSitemapIndex(chunks: SitemapEntry[][], site: URL): string {
+  const sitemaps = chunks
+    .map((chunk, index) => {
+      const lastmod = chunk.reduce<Date | undefined>(
+        (latest, entry) => (entry.lastmod && (!latest || entry.lastmod > latest) ? entry.lastmod : latest),
+        undefined,
+      );
+      return `  <sitemap><loc>${escapeXml(new URL(getSitemapChunkPath(index + 1), site).href)}</loc>${formatLastmod(lastmod)}</sitemap>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps}
+</sitemapindex>
+`;
+}
+
+/**
+ * Wrap sitemap XML in an endpoint Response
+ */
+export function createSitemapResponse(xml: string): Response {
+  return new Response(xml, {
+    headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+  });
+}
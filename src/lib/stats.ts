@@ -2,17 +2,14 @@
  * Site statistics utilities
  */
 
-import { getCollection } from 'astro:content';
 import readingTime from 'reading-time';
+import { getPostIndex } from './content/post-index';
 
 /**
- * Calculate total word count and reading time for all posts (excluding drafts in production)
+ * Calculate total word count and reading time for all posts (excluding drafts and scheduled posts in production)
  */
 export async function getSiteStats() {
-  const posts = await getCollection('blog', ({ data }) => {
-    // 在生产环境中，过滤掉草稿
-    return import.meta.env.PROD ? data.draft !== true : true;
-  });
+  const { posts } = await getPostIndex();
 
   let totalWords = 0;
   let totalMinutes = 0;
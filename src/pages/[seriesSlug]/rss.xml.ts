@@ -0,0 +1,31 @@
+import { getSeriesPath } from '@constants/router';
+import { siteConfig } from '@constants/site-config';
+import type { FeaturedSeriesItem } from '@lib/config/types';
+import { getEnabledSeries, getPostsBySeriesSlug } from '@lib/content';
+import { createRssResponse, getSeriesFeedPath } from '@lib/feed';
+import type { APIContext } from 'astro';
+
+export async function getStaticPaths() {
+  return getEnabledSeries().map((series) => ({
+    params: { seriesSlug: series.slug },
+    props: { series },
+  }));
+}
+
+export async function GET(context: APIContext<{ series: FeaturedSeriesItem }>) {
+  const { site, props } = context;
+  const { series } = props;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  return createRssResponse({
+    title: `${series.fullName ?? series.label ?? series.categoryName} | ${siteConfig.title}`,
+    description: series.description?.trim().slice(0, 160),
+    site,
+    posts: await getPostsBySeriesSlug(series.slug),
+    homePath: getSeriesPath(series.slug),
+    feedPath: getSeriesFeedPath(series.slug),
+  });
+}
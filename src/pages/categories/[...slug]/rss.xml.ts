@@ -0,0 +1,31 @@
+import { siteConfig } from '@constants/site-config';
+import { buildCategoryPath, getCategoryByLink, getCategoryLinks, getCategoryList, getPostsByCategoryPath } from '@lib/content';
+import { createRssResponse, getCategoryFeedPath } from '@lib/feed';
+import type { APIContext } from 'astro';
+
+export async function getStaticPaths() {
+  const { categories } = await getCategoryList();
+  return getCategoryLinks(categories, '').map((link) => ({
+    params: { slug: link },
+    props: { categoryNames: getCategoryByLink(categories, link)?.path ?? [] },
+  }));
+}
+
+export async function GET(context: APIContext<{ categoryNames: string[] }>) {
+  const { site, props } = context;
+  const { categoryNames } = props;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  const categoryPath = buildCategoryPath(categoryNames);
+  return createRssResponse({
+    title: `${categoryNames.join(' / ')} | ${siteConfig.title}`,
+    description: `Articles in category "${categoryNames[categoryNames.length - 1]}"`,
+    site,
+    posts: await getPostsByCategoryPath(categoryNames),
+    homePath: categoryPath,
+    feedPath: getCategoryFeedPath(categoryPath),
+  });
+}
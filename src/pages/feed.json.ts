@@ -0,0 +1,20 @@
+import { siteConfig } from '@constants/site-config';
+import { getSortedPosts } from '@lib/content';
+import { createJsonFeedResponse } from '@lib/feed';
+import type { APIContext } from 'astro';
+
+export async function GET(context: APIContext) {
+  const { site } = context;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  return createJsonFeedResponse({
+    title: siteConfig.title,
+    description: siteConfig.subtitle,
+    site,
+    posts: await getSortedPosts(),
+    feedPath: '/feed.json',
+  });
+}
@@ -0,0 +1,19 @@
+import { IMAGE_VARIANT_ROUTE, type ImageVariant, listImageVariants, renderImageVariant } from '@lib/responsive-image';
+import type { APIContext } from 'astro';
+
+export async function getStaticPaths() {
+  const variants = await listImageVariants();
+  return variants.map((variant) => ({
+    // '/img-variants/cover/1-800w.avif' => 'cover/1-800w.avif'
+    params: { path: variant.path.slice(IMAGE_VARIANT_ROUTE.length + 1) },
+    props: { variant },
+  }));
+}
+
+export async function GET({ props }: APIContext<{ variant: ImageVariant }>) {
+  const { variant } = props;
+  const image = await renderImageVariant(variant);
+  return new Response(new Uint8Array(image), {
+    headers: { 'Content-Type': `image/${variant.format}` },
+  });
+}
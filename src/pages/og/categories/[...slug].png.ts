@@ -0,0 +1,25 @@
+import { siteConfig } from '@constants/site-config';
+import { getCategoryByLink, getCategoryLinks, getCategoryList } from '@lib/content';
+import { getCategoryLabel } from '@lib/i18n';
+import { createOgImageResponse, renderOgImage } from '@lib/og-image';
+import type { APIContext } from 'astro';
+
+export async function getStaticPaths() {
+  const { categories } = await getCategoryList();
+  return getCategoryLinks(categories, '').map((link) => ({
+    params: { slug: link },
+    props: { link, names: getCategoryByLink(categories, link)?.path ?? [] },
+  }));
+}
+
+export async function GET({ props }: APIContext<{ link: string; names: string[] }>) {
+  const { link, names } = props;
+  const rootLink = link.split('/')[0];
+
+  const png = await renderOgImage({
+    title: getCategoryLabel(names[names.length - 1]),
+    breadcrumb: ['Categories', ...names.slice(0, -1).map((name) => getCategoryLabel(name))],
+    cover: siteConfig.featuredCategories?.find((category) => category.link === rootLink)?.image,
+  });
+  return createOgImageResponse(png);
+}
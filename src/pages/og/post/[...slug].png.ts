@@ -0,0 +1,31 @@
+import { getCategoryArr, getSortedPosts } from '@lib/content';
+import { getCategoryLabel, getPostLocale } from '@lib/i18n';
+import { createOgImageResponse, getPostOgImagePath, getStableDefaultCover, renderOgImage } from '@lib/og-image';
+import type { APIContext } from 'astro';
+import type { BlogPost } from 'types/blog';
+
+export async function getStaticPaths() {
+  const posts = await getSortedPosts();
+  return posts.map((post) => ({
+    // '/og/post/zh/hello-world.png' => 'zh/hello-world'
+    params: {
+      slug: getPostOgImagePath(post)
+        .replace(/^\/og\/post\//, '')
+        .replace(/\.png$/, ''),
+    },
+    props: { post },
+  }));
+}
+
+export async function GET({ props }: APIContext<{ post: BlogPost }>) {
+  const { post } = props;
+  const locale = getPostLocale(post);
+  const categoryArr = getCategoryArr(post.data.categories?.[0]);
+
+  const png = await renderOgImage({
+    title: post.data.title,
+    breadcrumb: categoryArr.map((name) => getCategoryLabel(name, locale)),
+    cover: post.data.cover ?? getStableDefaultCover(post.data.link ?? post.slug),
+  });
+  return createOgImageResponse(png);
+}
@@ -0,0 +1,21 @@
+import type { FeaturedSeriesItem } from '@lib/config/types';
+import { getEnabledSeries } from '@lib/content';
+import { createOgImageResponse, renderOgImage } from '@lib/og-image';
+import type { APIContext } from 'astro';
+
+export async function getStaticPaths() {
+  return getEnabledSeries().map((series) => ({
+    params: { seriesSlug: series.slug },
+    props: { series },
+  }));
+}
+
+export async function GET({ props }: APIContext<{ series: FeaturedSeriesItem }>) {
+  const { series } = props;
+  const png = await renderOgImage({
+    title: series.fullName ?? series.label ?? series.categoryName,
+    breadcrumb: ['Series'],
+    cover: series.cover,
+  });
+  return createOgImageResponse(png);
+}
@@ -0,0 +1,9 @@
+import { siteConfig } from '@constants/site-config';
+import { createOgImageResponse, renderOgImage } from '@lib/og-image';
+
+export async function GET() {
+  const png = await renderOgImage({
+    title: siteConfig.subtitle ? `${siteConfig.title} · ${siteConfig.subtitle}` : siteConfig.title,
+  });
+  return createOgImageResponse(png);
+}
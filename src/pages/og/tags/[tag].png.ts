@@ -0,0 +1,23 @@
+import { getSortedPosts, normalizeTag } from '@lib/content';
+import { createOgImageResponse, getTagOgImagePath, renderOgImage } from '@lib/og-image';
+import type { APIContext } from 'astro';
+
+export async function getStaticPaths() {
+  const posts = await getSortedPosts();
+  const tags = new Set(posts.flatMap((post) => (post.data.tags ?? []).map(normalizeTag)));
+
+  return Array.from(tags).map((tag) => ({
+    // Same param as the tag page: '/og/tags/a-b.png' => 'a-b'
+    params: {
+      tag: getTagOgImagePath(tag)
+        .replace(/^\/og\/tags\//, '')
+        .replace(/\.png$/, ''),
+    },
+    props: { tag },
+  }));
+}
+
+export async function GET({ props }: APIContext<{ tag: string }>) {
+  const png = await renderOgImage({ title: `#${props.tag}`, breadcrumb: ['Tags'] });
+  return createOgImageResponse(png);
+}
@@ -0,0 +1,19 @@
+import type { APIContext } from 'astro';
+
+export function GET(context: APIContext) {
+  const { site } = context;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  const robots = `User-agent: *
+Allow: /
+
+Sitemap: ${new URL('/sitemap.xml', site).href}
+`;
+
+  return new Response(robots, {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
@@ -0,0 +1,24 @@
+import { chunkSitemapEntries, createSitemapResponse, getSitemapEntries, renderUrlset, type SitemapEntry } from '@lib/sitemap';
+import type { APIContext } from 'astro';
+
+export async function getStaticPaths() {
+  const chunks = chunkSitemapEntries(await getSitemapEntries());
+
+  // Chunks are only emitted when sitemap.xml is an index
+  if (chunks.length <= 1) return [];
+
+  return chunks.map((entries, index) => ({
+    params: { index: String(index + 1) },
+    props: { entries },
+  }));
+}
+
+export async function GET(context: APIContext<{ entries: SitemapEntry[] }>) {
+  const { site, props } = context;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  return createSitemapResponse(renderUrlset(props.entries, site));
+}
@@ -0,0 +1,14 @@
+import { chunkSitemapEntries, createSitemapResponse, getSitemapEntries, renderSitemapIndex, renderUrlset } from '@lib/sitemap';
+import type { APIContext } from 'astro';
+
+export async function GET(context: APIContext) {
+  const { site } = context;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  // Small sites get a single urlset, large ones an index pointing at /sitemap-N.xml
+  const chunks = chunkSitemapEntries(await getSitemapEntries());
+  return createSitemapResponse(chunks.length > 1 ? renderSitemapIndex(chunks, site) : renderUrlset(chunks[0], site));
+}
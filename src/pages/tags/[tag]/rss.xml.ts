@@ -0,0 +1,36 @@
+import { Routes } from '@constants/router';
+import { siteConfig } from '@constants/site-config';
+import { getPostIndex } from '@lib/content';
+import { createRssResponse, getTagFeedPath } from '@lib/feed';
+import type { APIContext } from 'astro';
+import type { BlogPost } from 'types/blog';
+
+export async function getStaticPaths() {
+  const { byTag } = await getPostIndex();
+
+  return Array.from(byTag, ([tag, posts]) => ({
+    params: { tag: tag.replace(/\//g, '-') },
+    props: {
+      posts,
+      tag,
+    },
+  }));
+}
+
+export async function GET(context: APIContext<{ posts: BlogPost[]; tag: string }>) {
+  const { site, props } = context;
+  const { posts, tag } = props;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  return createRssResponse({
+    title: `#${tag} | ${siteConfig.title}`,
+    description: `All articles with tag ${tag}`,
+    site,
+    posts,
+    homePath: `${Routes.Tags}/${tag.replace(/\//g, '-')}`,
+    feedPath: getTagFeedPath(tag),
+  });
+}
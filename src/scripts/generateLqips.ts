@@ -1,21 +1,42 @@
 /**
- * Generate simple LQIP (Low Quality Image Placeholders) for images
+ * Generate LQIP (Low Quality Image Placeholders) for images
  *
  * This script:
- * 1. Reads all images from public/img/
- * 2. Extracts dominant colors from 4 quadrants
- * 3. Outputs CSS gradient strings to src/assets/lqips.json
+ * 1. Reads all images from public/img/ and images co-located with posts in src/content/blog/
+ * 2. Skips images whose content hash and mode are unchanged since the last run
+ * 3. Extracts dominant colors from 4 quadrants, plus a BlurHash, ThumbHash or tiny WebP
+ *    depending on content.lqipMode in config/site.yaml
+ * 4. Outputs the placeholders to src/assets/lqips.json
+ *
+ * Usage:
+ *   pnpm generate:lqips            # Only new and changed images
+ *   pnpm generate:lqips --force    # Regenerate all
  */
 
+import crypto from 'node:crypto';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { encode as encodeBlurHash } from 'blurhash';
 import chalk from 'chalk';
 import { glob } from 'glob';
 import sharp from 'sharp';
+import { rgbaToThumbHash } from 'thumbhash';
+import { loadSiteConfig } from '../lib/config/loader';
+import type { LqipMode } from '../lib/config/types';
+import type { LqipEntry, LqipMap } from '../lib/lqip';
 
 // --------- Configuration ---------
-const IMAGE_GLOB = 'public/img/**/*.{webp,jpg,jpeg,png}';
+const IMAGE_GLOBS = ['public/img/**/*.{webp,jpg,jpeg,png}', 'src/content/blog/**/*.{webp,jpg,jpeg,png}'];
 const OUTPUT_FILE = 'src/assets/lqips.json';
+const LQIP_MODES: LqipMode[] = ['gradient', 'blurhash', 'thumbhash', 'webp'];
+
+/** BlurHash is encoded from an image at most this wide/high, with 4x3 components */
+const BLURHASH_SIZE = 32;
+const BLURHASH_COMPONENTS = [4, 3] as const;
+/** ThumbHash input must be at most 100px on each side */
+const THUMBHASH_SIZE = 100;
+const WEBP_WIDTH = 16;
+const WEBP_QUALITY = 20;
 
 // --------- Type Definitions ---------
 interface RgbColor {
@@ -24,8 +45,6 @@ interface RgbColor {
   b: number;
 }
 
-type LqipMap = Record<string, string>;
-
 // --------- Color Utilities ---------
 
 /**
@@ -42,33 +61,89 @@ function rgbToHex(rgb: RgbColor): string {
 // --------- Image Processing ---------
 
 /**
- * Process a single image and generate gradient CSS
+ * Read the LQIP mode from site config, defaults to gradient
  */
-async function processImage(imagePath: string): Promise<string | null> {
-  try {
-    // Resize to 2x2 to get 4 quadrant colors
-    const resized = await sharp(imagePath).resize(2, 2, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
-
-    const channels = resized.info.channels;
-    const data = resized.data;
-
-    // Extract 4 colors (top-left, top-right, bottom-left, bottom-right)
-    const colors: string[] = [];
-    for (let i = 0; i < 4; i++) {
-      const offset = i * channels;
-      const rgb: RgbColor = {
-        r: data[offset],
-        g: data[offset + 1],
-        b: data[offset + 2],
-      };
-      colors.push(rgbToHex(rgb));
-    }
+function getLqipMode(): LqipMode {
+  const { config } = loadSiteConfig();
+  const mode = (config.content as { lqipMode?: unknown } | undefined)?.lqipMode;
+  if (mode === undefined) return 'gradient';
+  if (!LQIP_MODES.includes(mode as LqipMode)) {
+    throw new Error(`LQIP configuration error: content.lqipMode must be one of ${LQIP_MODES.join(', ')}`);
+  }
+  return mode as LqipMode;
+}
+
+/**
+ * Extract the gradient colors as a compact string
+ */
+async function getColors(image: sharp.Sharp): Promise<string> {
+  // Resize to 2x2 to get 4 quadrant colors
+  const resized = await image.clone().resize(2, 2, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
+
+  const channels = resized.info.channels;
+  const data = resized.data;
+
+  // Extract 4 colors (top-left, top-right, bottom-left, bottom-right)
+  const colors: string[] = [];
+  for (let i = 0; i < 4; i++) {
+    const offset = i * channels;
+    const rgb: RgbColor = {
+      r: data[offset],
+      g: data[offset + 1],
+      b: data[offset + 2],
+    };
+    colors.push(rgbToHex(rgb));
+  }
 
-    // Store only the 3 hex colors (without #) as a compact string
-    // Colors: top-left, top-right, bottom-right (used for 0%, 50%, 100%)
-    const compact = `${colors[0].slice(1)}${colors[1].slice(1)}${colors[3].slice(1)}`;
+  // Store only the 3 hex colors (without #) as a compact string
+  // Colors: top-left, top-right, bottom-right (used for 0%, 50%, 100%)
+  return `${colors[0].slice(1)}${colors[1].slice(1)}${colors[3].slice(1)}`;
+}
+
+/**
+ * Downscale to RGBA pixels, keeping the aspect ratio
+ */
+function toRgba(image: sharp.Sharp, size: number) {
+  return image.clone().resize(size, size, { fit: 'inside' }).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Encode the placeholder of a non-gradient mode
+ */
+async function getValue(image: sharp.Sharp, mode: Exclude<LqipMode, 'gradient'>): Promise<string> {
+  if (mode === 'blurhash') {
+    const { data, info } = await toRgba(image, BLURHASH_SIZE);
+    return encodeBlurHash(new Uint8ClampedArray(data), info.width, info.height, ...BLURHASH_COMPONENTS);
+  }
+  if (mode === 'thumbhash') {
+    const { data, info } = await toRgba(image, THUMBHASH_SIZE);
+    return Buffer.from(rgbaToThumbHash(info.width, info.height, data)).toString('base64');
+  }
+  const webp = await image.clone().resize(WEBP_WIDTH).webp({ quality: WEBP_QUALITY }).toBuffer();
+  return webp.toString('base64');
+}
 
-    return compact;
+/**
+ * Process a single image and generate its placeholder
+ */
+async function processImage(imagePath: string, hash: string, mode: LqipMode): Promise<LqipEntry | null> {
+  try {
+    // Apply EXIF rotation so placeholders match the displayed image
+    const image = sharp(await fs.readFile(imagePath)).rotate();
+    const { width = 0, height = 0, orientation } = await image.metadata();
+    const rotated = orientation !== undefined && orientation >= 5;
+
+    const entry: LqipEntry = {
+      hash,
+      colors: await getColors(image),
+      width: rotated ? height : width,
+      height: rotated ? width : height,
+    };
+    if (mode !== 'gradient') {
+      entry.mode = mode;
+      entry.value = await getValue(image, mode);
+    }
+    return entry;
   } catch (error) {
     console.error(chalk.red(`  Error processing ${imagePath}:`), error);
     return null;
@@ -76,38 +151,74 @@ async function processImage(imagePath: string): Promise<string | null> {
 }
 
 /**
- * Convert file path to short key (relative to /img/)
+ * Hash file content, unchanged images are not processed again
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const content = await fs.readFile(filePath);
+  return crypto.createHash('sha1').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Convert file path to short key (relative to /img/, co-located images keep the project-relative path)
  */
 function filePathToKey(filePath: string): string {
   // public/img/cover/1.webp → cover/1.webp
   return filePath.replace(/^public\/img\//, '');
 }
 
+/**
+ * Load existing placeholders for incremental updates
+ */
+async function loadExisting(): Promise<LqipMap> {
+  try {
+    return JSON.parse(await fs.readFile(OUTPUT_FILE, 'utf-8')) as LqipMap;
+  } catch {
+    return {};
+  }
+}
+
+function isReusable(entry: LqipEntry | string | undefined, hash: string, mode: LqipMode): entry is LqipEntry {
+  if (!entry || typeof entry === 'string' || entry.hash !== hash) return false;
+  return mode === 'gradient' ? !entry.mode : entry.mode === mode && Boolean(entry.value);
+}
+
 // --------- Main Execution ---------
 async function main() {
   const startTime = Date.now();
+  const force = process.argv.includes('--force');
 
   try {
     console.log(chalk.cyan('=== LQIP Generator ===\n'));
 
-    const files = await glob(IMAGE_GLOB);
+    const mode = getLqipMode();
+    const files = (await glob(IMAGE_GLOBS, { posix: true })).sort();
     if (!files.length) {
       console.log(chalk.yellow('No image files found.'));
       return;
     }
-    console.log(chalk.blue(`Found ${files.length} images\n`));
+    console.log(chalk.blue(`Found ${files.length} images (mode: ${mode}${force ? ', force' : ''})\n`));
 
+    const existing = force ? {} : await loadExisting();
     const lqips: LqipMap = {};
     let processed = 0;
+    let reused = 0;
     let skipped = 0;
 
-    for (const file of files) {
-      process.stdout.write(`\r  Processing ${processed + 1}/${files.length}: ${path.basename(file)}...`);
+    for (const [index, file] of files.entries()) {
+      process.stdout.write(`\r  Processing ${index + 1}/${files.length}: ${path.basename(file)}...`);
 
-      const compact = await processImage(file);
-      if (compact !== null) {
-        const key = filePathToKey(file);
-        lqips[key] = compact;
+      const key = filePathToKey(file);
+      const hash = await hashFile(file);
+      const previous = existing[key];
+      if (isReusable(previous, hash, mode)) {
+        lqips[key] = previous;
+        reused++;
+        continue;
+      }
+
+      const entry = await processImage(file, hash, mode);
+      if (entry !== null) {
+        lqips[key] = entry;
         processed++;
       } else {
         skipped++;
@@ -116,12 +227,21 @@ async function main() {
 
     console.log('');
 
+    // Entries of deleted images are dropped, since only current files are written
+    const removed = Object.keys(existing).filter((key) => !(key in lqips)).length;
+
     const dir = path.dirname(OUTPUT_FILE);
     await fs.mkdir(dir, { recursive: true });
     await fs.writeFile(OUTPUT_FILE, `${JSON.stringify(lqips, null, 2)}\n`);
 
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(chalk.green(`\nDone! Generated LQIP for ${processed} images in ${elapsed}s`));
+    if (reused > 0) {
+      console.log(chalk.gray(`  Unchanged: ${reused} images`));
+    }
+    if (removed > 0) {
+      console.log(chalk.gray(`  Removed: ${removed} deleted images`));
+    }
     if (skipped > 0) {
       console.log(chalk.yellow(`  Skipped: ${skipped} images`));
     }
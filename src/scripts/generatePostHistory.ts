@@ -0,0 +1,152 @@
+/**
+ * Generate post revision history from git
+ *
+ * This script:
+ * 1. Reads all posts from src/content/blog/
+ * 2. Collects the commits touching each file (following renames)
+ * 3. Outputs last-modified dates and changelogs to src/assets/post-history.json
+ *
+ * Runs before every build (the output is git-ignored). Shallow clones (common on CI/CD
+ * platforms) and builds without git (Docker) lack the full history, so they write an
+ * empty map instead of partial data: posts then show no git-derived dates or revisions.
+ */
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import chalk from 'chalk';
+import { glob } from 'glob';
+
+// --------- Configuration ---------
+const CONTENT_DIR = 'src/content/blog';
+const CONTENT_GLOB = `${CONTENT_DIR}/**/*.{md,mdx}`;
+const OUTPUT_FILE = 'src/assets/post-history.json';
+/** Maximum commits kept per post */
+const MAX_COMMITS = 20;
+
+// Unit/record separators keep commit subjects with arbitrary characters intact
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+// --------- Type Definitions ---------
+interface PostRevision {
+  hash: string;
+  date: string;
+  author: string;
+  subject: string;
+}
+
+interface PostHistoryEntry {
+  /** Date of the latest commit */
+  lastModified: string;
+  /** Total number of commits touching the file */
+  revisionCount: number;
+  /** Latest commits, newest first (capped at MAX_COMMITS) */
+  revisions: PostRevision[];
+}
+
+type PostHistoryMap = Record<string, PostHistoryEntry>;
+
+// --------- Git Utilities ---------
+
+function git(args: string[]): string {
+  return execFileSync('git', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] });
+}
+
+function isShallowRepository(): boolean {
+  return git(['rev-parse', '--is-shallow-repository']).trim() === 'true';
+}
+
+/**
+ * Get all commits touching a file, newest first
+ */
+function getFileRevisions(filePath: string): PostRevision[] {
+  const format = ['%h', '%aI', '%an', '%s'].join(FIELD_SEPARATOR) + RECORD_SEPARATOR;
+  const output = git(['log', '--follow', `--format=${format}`, '--', filePath]);
+
+  return output
+    .split(RECORD_SEPARATOR)
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, date, author, subject] = record.split(FIELD_SEPARATOR);
+      return { hash, date, author, subject };
+    });
+}
+
+/**
+ * Convert file path to collection entry id (relative to the blog collection)
+ */
+function filePathToKey(filePath: string): string {
+  // src/content/blog/life/hello-world.md → life/hello-world.md
+  return path.relative(CONTENT_DIR, filePath).split(path.sep).join('/');
+}
+
+async function writeHistory(history: PostHistoryMap): Promise<void> {
+  await fs.mkdir(path.dirname(OUTPUT_FILE), { recursive: true });
+  await fs.writeFile(OUTPUT_FILE, `${JSON.stringify(history, null, 2)}\n`);
+}
+
+// --------- Main Execution ---------
+async function main() {
+  const startTime = Date.now();
+
+  try {
+    console.log(chalk.cyan('=== Post History Generator ===\n'));
+
+    try {
+      if (isShallowRepository()) {
+        console.log(chalk.yellow('Shallow clone detected, writing empty post history.'));
+        await writeHistory({});
+        return;
+      }
+    } catch {
+      console.log(chalk.yellow('Not a git repository, writing empty post history.'));
+      await writeHistory({});
+      return;
+    }
+
+    const files = (await glob(CONTENT_GLOB)).sort();
+    if (!files.length) {
+      console.log(chalk.yellow('No post files found.'));
+      await writeHistory({});
+      return;
+    }
+    console.log(chalk.blue(`Found ${files.length} posts\n`));
+
+    const history: PostHistoryMap = {};
+    let untracked = 0;
+
+    for (const [index, file] of files.entries()) {
+      process.stdout.write(`\r  Processing ${index + 1}/${files.length}: ${path.basename(file)}...`);
+
+      const revisions = getFileRevisions(file);
+      if (!revisions.length) {
+        untracked++;
+        continue;
+      }
+
+      history[filePathToKey(file)] = {
+        lastModified: revisions[0].date,
+        revisionCount: revisions.length,
+        revisions: revisions.slice(0, MAX_COMMITS),
+      };
+    }
+
+    console.log('');
+
+    await writeHistory(history);
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log(chalk.green(`\nDone! Collected history for ${Object.keys(history).length} posts in ${elapsed}s`));
+    if (untracked > 0) {
+      console.log(chalk.yellow(`  Not committed yet: ${untracked} posts`));
+    }
+    console.log(chalk.cyan(`Output saved to: ${OUTPUT_FILE}`));
+  } catch (error) {
+    console.error(chalk.red('\nError:'), error);
+    process.exitCode = 1;
+  }
+}
+
+main();
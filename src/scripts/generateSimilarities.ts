@@ -19,6 +19,7 @@ import { glob } from 'glob';
 import matter from 'gray-matter';
 import { remark } from 'remark';
 import strip from 'strip-markdown';
+import { loadSiteConfig } from '../lib/config/loader';
 
 // --------- Configuration ---------
 const CONTENT_GLOB = 'src/content/blog/**/*.md';
@@ -44,6 +45,7 @@ env.cacheDir = './.cache/transformers';
 // --------- Type Definitions ---------
 interface PostData {
   slug: string;
+  locale: string;
   title: string;
   description?: string;
   text: string;
@@ -132,20 +134,29 @@ async function getPlainText(markdown: string): Promise<string> {
   );
 }
 
+/**
+ * Read the default locale from site config, posts without `lang` belong to it
+ */
+function getDefaultLocale(): string {
+  const { config } = loadSiteConfig();
+  const i18n = config.i18n as { defaultLocale?: string; locales?: { code?: string }[] } | undefined;
+  return i18n?.defaultLocale ?? i18n?.locales?.[0]?.code ?? 'en';
+}
+
 /**
  * Extract slug from file path, with support for custom link field
+ * Translations may share a link, so non-default locales are prefixed (matches getLocalizedSlug in src/lib/i18n)
  */
-function extractSlug(filePath: string, link?: string): string {
-  if (link) return link;
+function extractSlug(filePath: string, locale: string, defaultLocale: string, link?: string): string {
   // Extract from path: src/content/blog/foo/bar.md -> foo/bar
-  const relativePath = filePath.replace(/^src\/content\/blog\//, '').replace(/\.md$/, '');
-  return relativePath;
+  const slug = link || filePath.replace(/^src\/content\/blog\//, '').replace(/\.md$/, '');
+  return locale === defaultLocale ? slug : `${locale}/${slug}`;
 }
 
 /**
  * Process a single markdown file
  */
-async function processFile(filePath: string, summaries: SummariesMap): Promise<PostData | null> {
+async function processFile(filePath: string, summaries: SummariesMap, defaultLocale: string): Promise<PostData | null> {
   try {
     const content = await fs.readFile(filePath, 'utf-8');
     const { data: frontmatter, content: body } = matter(content);
@@ -165,7 +176,8 @@ async function processFile(filePath: string, summaries: SummariesMap): Promise<P
       return null;
     }
 
-    const slug = extractSlug(filePath, frontmatter.link as string | undefined);
+    const locale = (frontmatter.lang as string | undefined)?.trim() || defaultLocale;
+    const slug = extractSlug(filePath, locale, defaultLocale, frontmatter.link as string | undefined);
 
     // Use AI summary if available, otherwise use description
     const aiSummary = summaries[slug]?.summary;
@@ -182,6 +194,7 @@ async function processFile(filePath: string, summaries: SummariesMap): Promise<P
 
     return {
       slug,
+      locale,
       title: frontmatter.title as string,
       description,
       text: fullText,
@@ -195,12 +208,12 @@ async function processFile(filePath: string, summaries: SummariesMap): Promise<P
 /**
  * Load and process all markdown files
  */
-async function loadPosts(files: string[], summaries: SummariesMap): Promise<PostData[]> {
+async function loadPosts(files: string[], summaries: SummariesMap, defaultLocale: string): Promise<PostData[]> {
   console.log(chalk.blue('Processing markdown files...'));
   const posts: PostData[] = [];
   for (let i = 0; i < files.length; i++) {
     process.stdout.write(`\r  Processing ${i + 1}/${files.length}...`);
-    const post = await processFile(files[i], summaries);
+    const post = await processFile(files[i], summaries, defaultLocale);
     if (post) posts.push(post);
   }
   console.log('');
@@ -234,6 +247,7 @@ async function generateEmbeddings(posts: PostData[], extractor: FeatureExtractio
 
 /**
  * Compute top N similar posts for each post
+ * Only posts of the same locale are compared, related posts link within one language
  */
 function computeSimilarities(posts: PostData[], embeddings: Float32Array[], topN: number): SimilarityMap {
   const result: SimilarityMap = {};
@@ -244,7 +258,7 @@ function computeSimilarities(posts: PostData[], embeddings: Float32Array[], topN
     const similarities: SimilarPost[] = [];
 
     for (let j = 0; j < posts.length; j++) {
-      if (i === j) continue;
+      if (i === j || posts[i].locale !== posts[j].locale) continue;
 
       const similarity = dotProduct(embeddings[i], embeddings[j]);
       similarities.push({
@@ -300,7 +314,7 @@ async function main() {
     console.log(chalk.blue(`Found ${files.length} markdown files\n`));
 
     // 4. Parse and process all files
-    const posts = await loadPosts(files, summaries);
+    const posts = await loadPosts(files, summaries, getDefaultLocale());
     if (!posts.length) {
       console.log(chalk.red('No valid posts found.'));
       return;
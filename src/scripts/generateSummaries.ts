@@ -23,6 +23,7 @@ import { glob } from 'glob';
 import matter from 'gray-matter';
 import { remark } from 'remark';
 import strip from 'strip-markdown';
+import { loadSiteConfig } from '../lib/config/loader';
 
 // --------- Configuration ---------
 const CONTENT_GLOB = 'src/content/blog/**/*.md';
@@ -119,10 +120,17 @@ async function getPlainText(markdown: string): Promise<string> {
     .trim();
 }
 
-function extractSlug(filePath: string, link?: string): string {
-  if (link) return link;
-  const relativePath = filePath.replace(/^src\/content\/blog\//, '').replace(/\.md$/, '');
-  return relativePath;
+// Keys match getLocalizedSlug() in src/lib/i18n: translations may share a `link`, so non-default locales are prefixed
+function extractSlug(filePath: string, frontmatter: Record<string, unknown>, defaultLocale: string): string {
+  const slug = (frontmatter.link as string | undefined) || filePath.replace(/^src\/content\/blog\//, '').replace(/\.md$/, '');
+  const locale = (frontmatter.lang as string | undefined)?.trim() || defaultLocale;
+  return locale === defaultLocale ? slug : `${locale}/${slug}`;
+}
+
+function getDefaultLocale(): string {
+  const { config } = loadSiteConfig();
+  const i18n = config.i18n as { defaultLocale?: string; locales?: { code?: string }[] } | undefined;
+  return i18n?.defaultLocale ?? i18n?.locales?.[0]?.code ?? 'en';
 }
 
 // --------- LLM API ---------
@@ -167,7 +175,7 @@ async function generateSummary(text: string, model: string): Promise<string> {
 
 // --------- File Processing ---------
 
-async function processFile(filePath: string): Promise<PostData | null> {
+async function processFile(filePath: string, defaultLocale: string): Promise<PostData | null> {
   try {
     const content = await fs.readFile(filePath, 'utf-8');
     const { data: frontmatter, content: body } = matter(content);
@@ -184,7 +192,7 @@ async function processFile(filePath: string): Promise<PostData | null> {
       return null;
     }
 
-    const slug = extractSlug(filePath, frontmatter.link as string | undefined);
+    const slug = extractSlug(filePath, frontmatter, defaultLocale);
 
     const plainText = await getPlainText(body);
     const hash = computeHash(content);
@@ -201,12 +209,12 @@ async function processFile(filePath: string): Promise<PostData | null> {
   }
 }
 
-async function loadPosts(files: string[]): Promise<PostData[]> {
+async function loadPosts(files: string[], defaultLocale: string): Promise<PostData[]> {
   console.log(chalk.blue('Processing markdown files...'));
   const posts: PostData[] = [];
   for (let i = 0; i < files.length; i++) {
     process.stdout.write(`\r  Processing ${i + 1}/${files.length}...`);
-    const post = await processFile(files[i]);
+    const post = await processFile(files[i], defaultLocale);
     if (post) posts.push(post);
   }
   console.log('');
@@ -260,7 +268,7 @@ async function main() {
     console.log(chalk.blue(`Found ${files.length} markdown files\n`));
 
     // Process all files
-    const posts = await loadPosts(files);
+    const posts = await loadPosts(files, getDefaultLocale());
     if (!posts.length) {
       console.log(chalk.red('No valid posts found.'));
       return;
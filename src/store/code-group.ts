@@ -0,0 +1,43 @@
+/**
+ * Code Group Tab State
+ *
+ * The tab label last chosen in a :::code-group (e.g. "pnpm").
+ * Shared by every code group on the page and persisted to localStorage.
+ */
+
+import { atom } from 'nanostores';
+
+const STORAGE_KEY = 'code-group-tab';
+
+/**
+ * Selected tab label, null until the reader picks one
+ */
+export const $codeGroupTab = atom<string | null>(null);
+
+/**
+ * Load the selected tab from localStorage
+ */
+export function initCodeGroupTab(): void {
+  if (typeof localStorage === 'undefined') return;
+
+  try {
+    $codeGroupTab.set(localStorage.getItem(STORAGE_KEY));
+  } catch (e) {
+    console.warn('[CodeGroup] Failed to read stored tab', e);
+  }
+}
+
+/**
+ * Select a tab in all code groups and persist it
+ */
+export function selectCodeGroupTab(label: string): void {
+  $codeGroupTab.set(label);
+
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY, label);
+    } catch {
+      // Storage may be full or disabled (private mode); the selection still applies to this page
+    }
+  }
+}
@@ -11,6 +11,8 @@
  * - Type-safe modal data
  */
 
+import type { CodeBlockMeta } from '@lib/code-block-enhancer';
+import type { SearchFilters } from '@lib/search';
 import { atom, computed } from 'nanostores';
 
 /**
@@ -23,6 +25,8 @@ export interface CodeBlockData {
   preClassName: string;
   preStyle: string;
   codeClassName: string;
+  /** Title, line numbers and line decorations from the fence meta string */
+  meta?: CodeBlockMeta;
 }
 
 /**
@@ -41,11 +45,63 @@ export interface InfographicFullscreenData {
   source: string;
 }
 
-export type ModalType = 'drawer' | 'search' | 'codeFullscreen' | 'mermaidFullscreen' | 'infographicFullscreen' | null;
+/**
+ * Math (KaTeX display equation) fullscreen data
+ */
+export interface MathFullscreenData {
+  /** Rendered KaTeX HTML */
+  html: string;
+  /** TeX source */
+  tex: string;
+}
+
+/**
+ * An image in the lightbox
+ */
+export interface LightboxImage {
+  /** Original image */
+  src: string;
+  alt: string;
+  /** Caption from the image title or alt text */
+  caption?: string;
+}
+
+/**
+ * Image lightbox data: every image of the post, and the one shown
+ */
+export interface ImageLightboxData {
+  images: LightboxImage[];
+  index: number;
+}
+
+/**
+ * Search dialog data: query and facets to start with (e.g. from a /search?q= URL)
+ */
+export interface SearchDialogData {
+  query?: string;
+  filters?: SearchFilters;
+}
+
+export type ModalType =
+  | 'drawer'
+  | 'search'
+  | 'codeFullscreen'
+  | 'mermaidFullscreen'
+  | 'infographicFullscreen'
+  | 'mathFullscreen'
+  | 'imageLightbox'
+  | null;
 
 export interface ModalState {
   type: ModalType;
-  data?: CodeBlockData | MermaidFullscreenData | InfographicFullscreenData | null;
+  data?:
+    | SearchDialogData
+    | CodeBlockData
+    | MermaidFullscreenData
+    | InfographicFullscreenData
+    | MathFullscreenData
+    | ImageLightboxData
+    | null;
 }
 
 /**
@@ -56,6 +112,9 @@ export const $activeModal = atom<ModalState>({ type: null });
 // Computed helpers for backward compatibility and convenience
 export const $isDrawerOpen = computed($activeModal, (m) => m.type === 'drawer');
 export const $isSearchOpen = computed($activeModal, (m) => m.type === 'search');
+export const $searchDialogData = computed($activeModal, (m) =>
+  m.type === 'search' ? ((m.data as SearchDialogData | undefined) ?? null) : null,
+);
 export const $codeFullscreenData = computed($activeModal, (m) =>
   m.type === 'codeFullscreen' ? (m.data as CodeBlockData) : null,
 );
@@ -65,6 +124,12 @@ export const $mermaidFullscreenData = computed($activeModal, (m) =>
 export const $infographicFullscreenData = computed($activeModal, (m) =>
   m.type === 'infographicFullscreen' ? (m.data as InfographicFullscreenData) : null,
 );
+export const $mathFullscreenData = computed($activeModal, (m) =>
+  m.type === 'mathFullscreen' ? (m.data as MathFullscreenData) : null,
+);
+export const $imageLightboxData = computed($activeModal, (m) =>
+  m.type === 'imageLightbox' ? (m.data as ImageLightboxData) : null,
+);
 export const $isAnyModalOpen = computed($activeModal, (m) => m.type !== null);
 
 /**
@@ -72,13 +137,19 @@ export const $isAnyModalOpen = computed($activeModal, (m) => m.type !== null);
  */
 export function openModal<T extends ModalType>(
   type: T,
-  data?: T extends 'codeFullscreen'
-    ? CodeBlockData
-    : T extends 'mermaidFullscreen'
-      ? MermaidFullscreenData
-      : T extends 'infographicFullscreen'
-        ? InfographicFullscreenData
-        : never,
+  data?: T extends 'search'
+    ? SearchDialogData
+    : T extends 'codeFullscreen'
+      ? CodeBlockData
+      : T extends 'mermaidFullscreen'
+        ? MermaidFullscreenData
+        : T extends 'infographicFullscreen'
+          ? InfographicFullscreenData
+          : T extends 'mathFullscreen'
+            ? MathFullscreenData
+            : T extends 'imageLightbox'
+              ? ImageLightboxData
+              : never,
 ): void {
   $activeModal.set({ type, data });
   if (type && typeof document !== 'undefined') {
@@ -112,7 +183,7 @@ export const openDrawer = () => openModal('drawer');
 export const closeDrawer = () => closeModal();
 export const toggleDrawer = () => toggleModal('drawer');
 
-export const openSearch = () => openModal('search');
+export const openSearch = (data?: SearchDialogData) => openModal('search', data);
 export const closeSearch = () => closeModal();
 export const toggleSearch = () => toggleModal('search');
 
@@ -125,6 +196,12 @@ export const closeMermaidFullscreen = () => closeModal();
 export const openInfographicFullscreen = (data: InfographicFullscreenData) => openModal('infographicFullscreen', data);
 export const closeInfographicFullscreen = () => closeModal();
 
+export const openMathFullscreen = (data: MathFullscreenData) => openModal('mathFullscreen', data);
+export const closeMathFullscreen = () => closeModal();
+
+export const openImageLightbox = (data: ImageLightboxData) => openModal('imageLightbox', data);
+export const closeImageLightbox = () => closeModal();
+
 /**
  * Backward compatible atoms for components using old naming patterns.
  * These are real atoms that stay in sync with the unified modal state.
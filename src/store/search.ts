@@ -0,0 +1,62 @@
+/**
+ * Search State Management
+ *
+ * Recent searches of the search dialog, persisted to localStorage.
+ */
+
+import { atom } from 'nanostores';
+
+const STORAGE_KEY = 'search-recent';
+
+/** Number of recent searches kept */
+const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * Recent search queries, newest first
+ */
+export const recentSearches = atom<string[]>([]);
+
+function persist(queries: string[]): void {
+  recentSearches.set(queries);
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queries));
+  }
+}
+
+/**
+ * Initialize recent searches from localStorage
+ */
+export function initRecentSearches(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const queries = JSON.parse(stored) as unknown;
+      if (Array.isArray(queries)) {
+        recentSearches.set(queries.filter((query): query is string => typeof query === 'string'));
+      }
+    }
+  } catch (e) {
+    console.warn('[Search] Failed to parse stored recent searches', e);
+  }
+}
+
+/**
+ * Move a query to the top of the recent searches
+ */
+export function addRecentSearch(query: string): void {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+
+  const others = recentSearches.get().filter((q) => q.toLowerCase() !== trimmed.toLowerCase());
+  persist([trimmed, ...others].slice(0, MAX_RECENT_SEARCHES));
+}
+
+export function removeRecentSearch(query: string): void {
+  persist(recentSearches.get().filter((q) => q !== query));
+}
+
+export function clearRecentSearches(): void {
+  persist([]);
+}
@@ -16,9 +16,23 @@ export interface BlogSchema {
   categories?: string[] | string[][];
   sticky?: boolean;
   draft?: boolean;
+  /** Hide the post from production builds until this time (defaults to `date`) */
+  publishAt?: Date;
   tocNumbering?: boolean;
   /** Exclude this post from AI summary generation */
   excludeFromSummary?: boolean;
+  /** Post language (locale code from i18n.locales), defaults to i18n.defaultLocale */
+  lang?: string;
+  /** Slug (link) of the post this one translates */
+  translationOf?: string;
+  /** Series name; posts sharing it form a series regardless of category */
+  series?: string;
+  /** Position within the series (1-based); posts without it fall back to date order */
+  seriesOrder?: number;
+  /** Bibliography for [@key] citations (.bib or CSL-JSON .json), relative to the post file */
+  bibliography?: string;
+  /** Show camera, lens and exposure (EXIF) under local images */
+  exif?: boolean;
 }
 
 /**
@@ -0,0 +1,10 @@
+/**
+ * Type declarations for the merged site configuration
+ * Provided by the site-config Vite plugin in astro.config.mjs (see src/lib/config/loader.ts)
+ */
+
+declare module 'virtual:site-config' {
+  import type { SiteYamlConfig } from '@lib/config/types';
+  const value: SiteYamlConfig;
+  export default value;
+}